@@ -0,0 +1,195 @@
+import { randomUUID } from "crypto";
+import { AlertType } from "../../../packages/tradingview-gen/proto/crypto-stream_pb";
+import { tickerKey } from "./priceSource";
+
+export interface AlertRuleData {
+  id: string;
+  symbol: string;
+  exchange: string;
+  type: AlertType;
+  threshold: number; // price for above/below, percent for percent change
+  windowSeconds: number; // percent change window or silence before no-update fires
+  createdAt: number;
+  lastTriggeredAt: number; // 0 = never
+  createdBy?: string; // API key name, absent when auth is disabled
+}
+
+export interface AlertTrigger {
+  rule: AlertRuleData;
+  price: string | null; // exact decimal; null for no-update alerts
+  timestamp: number;
+  message: string;
+}
+
+export type AlertListener = (trigger: AlertTrigger) => void;
+
+// Evaluates alert rules against incoming ticks. Rules are edge-triggered: once fired they
+// stay quiet until their condition is false again, so a price hovering above a threshold
+// doesn't fire on every tick.
+export class AlertEngine {
+  private rules: Map<string, AlertRuleData> = new Map();
+  private armed: Map<string, boolean> = new Map(); // rule id -> may fire
+  private ticks: Map<string, { timestamp: number; price: number }[]> = new Map(); // recent ticks per exchange:symbol
+  private lastTick: Map<string, number> = new Map(); // exchange:symbol -> last tick time
+  private startedAt = Date.now();
+  private silenceTimer: NodeJS.Timeout;
+
+  constructor(private onTrigger: AlertListener) {
+    // no-update rules can't be checked on ticks, so poll them
+    this.silenceTimer = setInterval(() => this.checkSilence(Date.now()), 1000);
+    this.silenceTimer.unref();
+  }
+
+  // Returns an error message if the rule can't be created
+  validate(type: AlertType, threshold: number, windowSeconds: number): string | null {
+    switch (type) {
+      case AlertType.PRICE_ABOVE:
+      case AlertType.PRICE_BELOW:
+        return threshold > 0 ? null : "Price threshold must be greater than 0";
+      case AlertType.PERCENT_CHANGE:
+        if (threshold <= 0) return "Percent threshold must be greater than 0";
+        return windowSeconds > 0 ? null : "Window must be at least 1 second";
+      case AlertType.NO_UPDATE:
+        return windowSeconds > 0 ? null : "Window must be at least 1 second";
+      default:
+        return "Alert type is required";
+    }
+  }
+
+  create(
+    symbol: string,
+    exchange: string,
+    type: AlertType,
+    threshold: number,
+    windowSeconds: number,
+    createdBy?: string
+  ): AlertRuleData {
+    const rule: AlertRuleData = {
+      id: randomUUID(),
+      symbol,
+      exchange,
+      type,
+      threshold,
+      windowSeconds,
+      createdAt: Date.now(),
+      lastTriggeredAt: 0,
+      createdBy,
+    };
+    this.add(rule);
+    return rule;
+  }
+
+  // Add an existing rule (e.g. restored from the state file)
+  add(rule: AlertRuleData): void {
+    this.rules.set(rule.id, rule);
+    this.armed.set(rule.id, true);
+  }
+
+  get(id: string): AlertRuleData | undefined {
+    return this.rules.get(id);
+  }
+
+  delete(id: string): boolean {
+    this.armed.delete(id);
+    return this.rules.delete(id);
+  }
+
+  // Drop a ticker's rules and the ticks kept for them, once it is no longer tracked; returns how many
+  deleteForTicker(symbol: string, exchange: string): number {
+    const key = tickerKey(exchange, symbol);
+    const rules = this.rulesFor(key);
+    for (const rule of rules) this.delete(rule.id);
+    this.ticks.delete(key);
+    this.lastTick.delete(key);
+    return rules.length;
+  }
+
+  list(): AlertRuleData[] {
+    return Array.from(this.rules.values()).sort((a, b) => a.createdAt - b.createdAt);
+  }
+
+  // Evaluate price-based rules for a new tick; thresholds are plain numbers, so compare as one
+  recordPrice(symbol: string, exchange: string, price: string, timestamp: number): void {
+    const key = tickerKey(exchange, symbol);
+    this.lastTick.set(key, timestamp);
+
+    const value = Number(price);
+    const rules = this.rulesFor(key);
+    this.rememberTick(key, rules, value, timestamp);
+
+    for (const rule of rules) {
+      switch (rule.type) {
+        case AlertType.PRICE_ABOVE:
+          this.evaluate(rule, value > rule.threshold, price, timestamp,
+            `${key} is above ${rule.threshold} at ${price}`);
+          break;
+        case AlertType.PRICE_BELOW:
+          this.evaluate(rule, value < rule.threshold, price, timestamp,
+            `${key} is below ${rule.threshold} at ${price}`);
+          break;
+        case AlertType.PERCENT_CHANGE: {
+          const base = this.ticks.get(key)!.find(t => t.timestamp >= timestamp - rule.windowSeconds * 1000)!;
+          const change = ((value - base.price) / base.price) * 100;
+          const sign = change >= 0 ? "+" : "";
+          this.evaluate(rule, Math.abs(change) >= rule.threshold, price, timestamp,
+            `${key} moved ${sign}${change.toFixed(2)}% in ${rule.windowSeconds}s (now ${price})`);
+          break;
+        }
+        case AlertType.NO_UPDATE:
+          this.armed.set(rule.id, true); // a tick re-arms the silence check
+          break;
+      }
+    }
+  }
+
+  // Fire no-update rules for tickers that have been silent too long
+  checkSilence(now: number): void {
+    for (const rule of this.rules.values()) {
+      if (rule.type !== AlertType.NO_UPDATE) continue;
+
+      const key = tickerKey(rule.exchange, rule.symbol);
+      const last = this.lastTick.get(key) ?? Math.max(rule.createdAt, this.startedAt);
+      const silentSeconds = Math.floor((now - last) / 1000);
+      if (silentSeconds >= rule.windowSeconds && this.armed.get(rule.id)) {
+        this.fire(rule, null, now, `${key} has not updated for ${silentSeconds}s`);
+      }
+    }
+  }
+
+  close(): void {
+    clearInterval(this.silenceTimer);
+  }
+
+  private rulesFor(key: string): AlertRuleData[] {
+    return Array.from(this.rules.values()).filter(rule => tickerKey(rule.exchange, rule.symbol) === key);
+  }
+
+  // Keep ticks as far back as the longest percent-change window on this ticker
+  private rememberTick(key: string, rules: AlertRuleData[], price: number, timestamp: number): void {
+    const windows = rules.filter(rule => rule.type === AlertType.PERCENT_CHANGE).map(rule => rule.windowSeconds);
+    if (windows.length === 0) {
+      this.ticks.delete(key);
+      return;
+    }
+
+    const cutoff = timestamp - Math.max(...windows) * 1000;
+    const ticks = (this.ticks.get(key) ?? []).filter(t => t.timestamp >= cutoff);
+    ticks.push({ timestamp, price });
+    this.ticks.set(key, ticks);
+  }
+
+  private evaluate(rule: AlertRuleData, condition: boolean, price: string, timestamp: number, message: string): void {
+    if (!condition) {
+      this.armed.set(rule.id, true);
+    } else if (this.armed.get(rule.id)) {
+      this.fire(rule, price, timestamp, message);
+    }
+  }
+
+  private fire(rule: AlertRuleData, price: string | null, timestamp: number, message: string): void {
+    this.armed.set(rule.id, false);
+    rule.lastTriggeredAt = timestamp;
+    console.log(`[ALERT] ${message}`);
+    this.onTrigger({ rule: { ...rule }, price, timestamp, message });
+  }
+}
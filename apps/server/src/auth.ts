@@ -0,0 +1,147 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { promises as fs, unwatchFile, watchFile } from "fs";
+import { Code, ConnectError, Interceptor, createContextKey } from "@connectrpc/connect";
+
+// viewer: read and stream; editor: also add/remove tickers and alerts they own; admin: everything
+export const ROLES = ["viewer", "editor", "admin"] as const;
+export type Role = (typeof ROLES)[number];
+
+// Who is calling, as established by the auth interceptor
+export interface Principal {
+  name: string;
+  role: Role;
+  anonymous?: boolean; // called without a key and admitted with the anonymous role
+}
+
+// The caller of the current RPC; null when auth is disabled
+export const principalKey = createContextKey<Principal | null>(null, { description: "Authenticated caller" });
+
+// An API key as stored in the keys file
+export interface ApiKeyEntry {
+  name: string; // owner, recorded on the tickers and alerts they create
+  role: Role;
+  key: string;
+}
+
+export function hasRole(principal: Principal, role: Role): boolean {
+  return ROLES.indexOf(principal.role) >= ROLES.indexOf(role);
+}
+
+// Owners may change what they created; admins may change anything. Everyone may when auth is off.
+export function canModify(principal: Principal | null, owner: string | null): boolean {
+  if (!principal) return true;
+  return principal.role === "admin" || (hasRole(principal, "editor") && owner === principal.name);
+}
+
+// API keys kept in a local JSON file ({ "keys": [{ "name", "role", "key" }] }), reloaded when it changes
+export class ApiKeyStore {
+  private entries: { principal: Principal; digest: Buffer }[] = [];
+
+  constructor(private file: string) {}
+
+  // Missing file means no keys yet; an invalid file is an error so a typo doesn't lock everyone out silently
+  async load(): Promise<void> {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(await fs.readFile(this.file, "utf8"));
+    } catch (err: any) {
+      if (err.code === "ENOENT") {
+        console.warn(`API key file ${this.file} not found, no keys are accepted`);
+        this.entries = [];
+        return;
+      }
+      throw new Error(`Could not read API key file ${this.file}: ${err.message}`);
+    }
+
+    const keys: unknown[] = Array.isArray(parsed?.keys) ? parsed.keys : [];
+    const valid = keys.filter(isApiKeyEntry);
+    if (valid.length !== keys.length) {
+      console.warn(`Ignored ${keys.length - valid.length} invalid entries in ${this.file}`);
+    }
+    this.entries = valid.map(entry => ({
+      principal: { name: entry.name, role: entry.role },
+      digest: digest(entry.key),
+    }));
+    console.log(`Loaded ${this.entries.length} API keys from ${this.file}`);
+  }
+
+  // Pick up edits to the keys file without a restart
+  watch(): void {
+    watchFile(this.file, { interval: 2000 }, () => {
+      this.load().catch(err => console.error(err.message));
+    }).unref();
+  }
+
+  close(): void {
+    unwatchFile(this.file);
+  }
+
+  authenticate(key: string): Principal | null {
+    const candidate = digest(key);
+    // compare digests in constant time so response timing doesn't leak key prefixes
+    const match = this.entries.find(entry => timingSafeEqual(entry.digest, candidate));
+    return match ? { ...match.principal } : null;
+  }
+}
+
+// Role each RPC needs; methods not listed need admin, so new RPCs are locked down until classified
+export type MethodRoles = Record<string, Role>;
+
+// Authenticates the API key in "Authorization: Bearer <key>" (or "X-API-Key") and checks the
+// method's role. Calls without a key get anonymousRole, if one is set.
+export function createAuthInterceptor(
+  store: ApiKeyStore,
+  methodRoles: MethodRoles,
+  anonymousRole: Role | null
+): Interceptor {
+  return next => async req => {
+    const key = extractKey(req.header);
+    let principal: Principal | null;
+    if (key) {
+      principal = store.authenticate(key);
+      if (!principal) {
+        throw new ConnectError("Invalid API key", Code.Unauthenticated);
+      }
+    } else if (anonymousRole) {
+      principal = { name: "anonymous", role: anonymousRole, anonymous: true };
+    } else {
+      throw new ConnectError("API key required", Code.Unauthenticated);
+    }
+
+    const required = methodRoles[req.method.name] ?? "admin";
+    if (!hasRole(principal, required)) {
+      throw new ConnectError(
+        `${req.method.name} requires the ${required} role (${principal.name} is ${principal.role})`,
+        Code.PermissionDenied
+      );
+    }
+
+    req.contextValues.set(principalKey, principal);
+    return next(req);
+  };
+}
+
+function extractKey(header: Headers): string | null {
+  const authorization = header.get("authorization");
+  if (authorization) {
+    const match = /^Bearer\s+(.+)$/i.exec(authorization.trim());
+    // a malformed header is rejected rather than treated as no key, which could fall back to anonymousRole
+    if (!match) throw new ConnectError('Authorization header must be "Bearer <key>"', Code.Unauthenticated);
+    return match[1];
+  }
+  return header.get("x-api-key");
+}
+
+function digest(key: string): Buffer {
+  return createHash("sha256").update(key).digest();
+}
+
+function isApiKeyEntry(value: any): value is ApiKeyEntry {
+  return (
+    typeof value?.name === "string" &&
+    value.name !== "" &&
+    typeof value?.key === "string" &&
+    value.key.length >= 16 &&
+    ROLES.includes(value?.role)
+  );
+}
@@ -0,0 +1,162 @@
+import { tickerKey } from "./priceSource";
+import { PricePointData } from "./history";
+import { compareDecimals } from "./decimal";
+
+export interface CandleData {
+  symbol: string;
+  exchange: string;
+  interval: string; // e.g. "1m"
+  start: number; // bucket start, ms since epoch
+  // exact decimal strings, same precision as the ticks
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  tickCount: number;
+  closed: boolean; // false while the bucket is still in progress
+}
+
+export type CandleListener = (candle: CandleData) => void;
+
+// Parse "1s", "1m", "5m", "1h" into milliseconds; returns null if invalid
+export function parseInterval(interval: string): number | null {
+  const match = /^(\d+)([smh])$/.exec(interval.trim());
+  if (!match) return null;
+  const amount = Number(match[1]);
+  if (amount <= 0) return null;
+  const unit = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 }[match[2] as "s" | "m" | "h"];
+  return amount * unit;
+}
+
+// Aggregate recorded ticks (oldest first) into candles, e.g. to backfill from price history
+export function buildCandles(
+  symbol: string,
+  exchange: string,
+  interval: string,
+  points: PricePointData[],
+  now: number = Date.now()
+): CandleData[] {
+  const intervalMs = parseInterval(interval)!;
+  const candles: CandleData[] = [];
+  let current: CandleData | null = null;
+
+  for (const point of points) {
+    const start = bucketStart(point.timestamp, intervalMs);
+    if (!current || current.start !== start) {
+      if (current) candles.push({ ...current, closed: true });
+      current = newCandle(symbol, exchange, interval, start, point.price);
+    }
+    applyTick(current, point.price);
+  }
+
+  if (current) {
+    current.closed = current.start + intervalMs <= now;
+    candles.push(current);
+  }
+  return candles;
+}
+
+// Builds live OHLC candles per ticker for each configured interval and reports every
+// change (in-progress and closed bars) to the listener
+export class CandleAggregator {
+  private intervals: { name: string; ms: number }[];
+  private current: Map<string, CandleData> = new Map(); // exchange:symbol:interval -> open candle
+  private flushTimer: NodeJS.Timeout;
+
+  constructor(intervals: string[], private onCandle: CandleListener) {
+    this.intervals = intervals.map(name => {
+      const ms = parseInterval(name);
+      if (ms === null) {
+        throw new Error(`Invalid candle interval "${name}" (expected e.g. 1s, 1m, 5m, 1h)`);
+      }
+      return { name, ms };
+    });
+
+    // Close buckets on time even if no new tick arrives
+    this.flushTimer = setInterval(() => this.flush(Date.now()), 1000);
+    this.flushTimer.unref();
+  }
+
+  get supportedIntervals(): string[] {
+    return this.intervals.map(interval => interval.name);
+  }
+
+  addTick(symbol: string, exchange: string, price: string, timestamp: number): void {
+    for (const interval of this.intervals) {
+      const key = `${tickerKey(exchange, symbol)}:${interval.name}`;
+      const start = bucketStart(timestamp, interval.ms);
+      let candle = this.current.get(key);
+
+      // Tick belongs to a later bucket: close the previous candle first
+      if (candle && candle.start !== start) {
+        candle.closed = true;
+        this.onCandle({ ...candle });
+        candle = undefined;
+      }
+
+      if (!candle) {
+        candle = newCandle(symbol, exchange, interval.name, start, price);
+        this.current.set(key, candle);
+      }
+
+      applyTick(candle, price);
+      this.onCandle({ ...candle });
+    }
+  }
+
+  // In-progress candles for a ticker (used to send the initial state of a stream)
+  currentCandles(symbol: string, exchange: string): CandleData[] {
+    return this.intervals
+      .map(interval => this.current.get(`${tickerKey(exchange, symbol)}:${interval.name}`))
+      .filter((candle): candle is CandleData => candle !== undefined)
+      .map(candle => ({ ...candle }));
+  }
+
+  // Forget a ticker's in-progress candles once it's no longer tracked
+  removeTicker(symbol: string, exchange: string): void {
+    for (const interval of this.intervals) {
+      this.current.delete(`${tickerKey(exchange, symbol)}:${interval.name}`);
+    }
+  }
+
+  // Close every candle whose bucket has ended
+  flush(now: number): void {
+    for (const [key, candle] of this.current) {
+      if (candle.start + parseInterval(candle.interval)! <= now) {
+        candle.closed = true;
+        this.onCandle({ ...candle });
+        this.current.delete(key);
+      }
+    }
+  }
+
+  close(): void {
+    clearInterval(this.flushTimer);
+  }
+}
+
+function bucketStart(timestamp: number, intervalMs: number): number {
+  return Math.floor(timestamp / intervalMs) * intervalMs;
+}
+
+function newCandle(symbol: string, exchange: string, interval: string, start: number, price: string): CandleData {
+  return {
+    symbol,
+    exchange,
+    interval,
+    start,
+    open: price,
+    high: price,
+    low: price,
+    close: price,
+    tickCount: 0,
+    closed: false,
+  };
+}
+
+function applyTick(candle: CandleData, price: string): void {
+  if (compareDecimals(price, candle.high) > 0) candle.high = price;
+  if (compareDecimals(price, candle.low) < 0) candle.low = price;
+  candle.close = price;
+  candle.tickCount++;
+}
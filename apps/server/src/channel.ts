@@ -0,0 +1,145 @@
+export interface ChannelOptions<T> {
+  // Max buffered updates before conflation kicks in
+  capacity: number;
+  // Updates with the same key replace each other when conflating (e.g. exchange:symbol)
+  key: (update: T) => string;
+  // Updates that must never be dropped (e.g. removal events)
+  durable: (update: T) => boolean;
+}
+
+// Per-client queue of updates that wakes the reader as soon as data arrives.
+// The buffer is bounded: when a client falls behind, pending updates are conflated to the
+// latest one per key. Durable updates are never dropped.
+export class UpdateChannel<T> implements AsyncIterable<T> {
+  private buffer: T[] = [];
+  private waiting: ((update: T | undefined) => void) | null = null;
+  private closed = false;
+  private conflatedCount = 0;
+  private capacity: number;
+  private keyOf: (update: T) => string;
+  private isDurable: (update: T) => boolean;
+
+  constructor(options: ChannelOptions<T>) {
+    this.capacity = options.capacity;
+    this.keyOf = options.key;
+    this.isDurable = options.durable;
+  }
+
+  // Number of updates waiting to be delivered
+  get depth(): number {
+    return this.buffer.length;
+  }
+
+  // Number of updates replaced or dropped because the client fell behind
+  get conflated(): number {
+    return this.conflatedCount;
+  }
+
+  push(update: T): void {
+    if (this.closed) return;
+
+    // Reader is already waiting: hand the update over directly
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve(update);
+      return;
+    }
+
+    if (this.buffer.length >= this.capacity && !this.isDurable(update)) {
+      this.conflate(update);
+      return;
+    }
+
+    this.buffer.push(update);
+  }
+
+  // Keep only buffered updates matching the predicate (e.g. after a filter change)
+  retain(predicate: (update: T) => boolean): void {
+    this.buffer = this.buffer.filter(predicate);
+  }
+
+  // Resolves with the next update, or undefined once the channel is closed
+  next(): Promise<T | undefined> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve(this.buffer.shift());
+    }
+    if (this.closed) {
+      return Promise.resolve(undefined);
+    }
+    return new Promise(resolve => {
+      this.waiting = resolve;
+    });
+  }
+
+  // Stop taking updates but deliver everything already buffered, plus a last update, before the
+  // iteration ends (graceful shutdown). close() drops the buffer instead.
+  end(last?: T): void {
+    if (this.closed) return;
+    if (last !== undefined) this.push(last);
+    this.closed = true;
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve(undefined);
+    }
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.buffer = [];
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve(undefined);
+    }
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<T> {
+    while (true) {
+      const update = await this.next();
+      if (!update) return;
+      yield update;
+    }
+  }
+
+  // Buffer is full: make room for an update without growing past capacity
+  private conflate(update: T): void {
+    this.conflatedCount++;
+
+    // An update with this key is already pending: replace it with the newer one
+    const pending = this.findPending(update);
+    if (pending !== -1) {
+      this.buffer[pending] = update;
+      return;
+    }
+
+    // Otherwise collapse the buffer to the latest update per key (keeping every durable one)
+    const latest = new Map<string, number>();
+    this.buffer.forEach((u, i) => {
+      if (!this.isDurable(u)) latest.set(this.keyOf(u), i);
+    });
+    this.buffer = this.buffer.filter((u, i) => this.isDurable(u) || latest.get(this.keyOf(u)) === i);
+
+    // Still full (more keys than capacity): drop the oldest non-durable update
+    if (this.buffer.length >= this.capacity) {
+      const oldest = this.buffer.findIndex(u => !this.isDurable(u));
+      if (oldest !== -1) this.buffer.splice(oldest, 1);
+    }
+
+    this.buffer.push(update);
+  }
+
+  // Index of a buffered update with the same key that isn't followed by a durable one
+  private findPending(update: T): number {
+    const key = this.keyOf(update);
+    for (let i = this.buffer.length - 1; i >= 0; i--) {
+      if (this.keyOf(this.buffer[i]) !== key) continue;
+      return this.isDurable(this.buffer[i]) ? -1 : i;
+    }
+    return -1;
+  }
+}
@@ -0,0 +1,366 @@
+import { existsSync, readFileSync } from "fs";
+import { parseInterval } from "./candles";
+import { parseSimulatedTickers } from "./simulator";
+import { DEFAULT_SCRAPER_OPTIONS, ScraperOptions } from "./scraper";
+
+export interface ServerConfig {
+  server: {
+    port: number;
+    corsOrigins: string[]; // browser origins allowed to call the API
+  };
+  priceSource: {
+    kind: "tradingview" | "simulated";
+  };
+  scraper: Required<ScraperOptions>; // see scraper.ts for what each setting does
+  simulator: {
+    tickers: string; // "SYMBOL:PRICE,..."; empty for the built-in set
+    intervalMs: number;
+    seed: number;
+    stallAfterTicks: number;
+  };
+  stream: {
+    bufferSize: number;
+    replaySize: number; // recent updates kept so reconnecting clients can resume where they left off
+  };
+  websocket: {
+    heartbeatSeconds: number; // ping interval on /ws; clients that miss a pong are dropped
+  };
+  history: {
+    dir: string;
+    retentionHours: number;
+  };
+  candles: {
+    intervals: string[];
+  };
+  state: {
+    file: string;
+  };
+  watchdog: {
+    staleSeconds: number;
+    maxRecoveries: number;
+  };
+  health: {
+    freshnessSeconds: number; // /readyz counts a ticker as live if it ticked this recently
+    minLiveFraction: number; // share of tickers that must be live for /readyz, 0 to 1
+  };
+  symbols: {
+    bundledFile: string; // catalog shipped with the server, used until the first refresh
+    cacheFile: string; // where refreshed catalogs are saved
+    refreshHours: number; // how often the catalog is refreshed from the price source; 0 never
+    validationCacheSeconds: number; // how long a ticker validation result is reused
+  };
+  limits: {
+    maxTickers: number; // tracked tickers across all watchlists; 0 for no limit
+    maxPages: number; // browser tabs, including pages opened to validate; 0 for no limit
+    maxConcurrentValidations: number; // AddTicker validations run at once, each opens a page
+    validationQueueSize: number; // validations waiting for a slot before adds are rejected
+    ratePerMinute: number; // mutating RPCs per caller per minute; 0 for no limit
+    rateBurst: number; // mutating RPCs a caller may make back to back
+  };
+  shutdown: {
+    drainSeconds: number; // how long open streams get to deliver their last updates
+    closeSeconds: number; // limit for each of saving state, closing the browser
+  };
+  auth: {
+    enabled: boolean; // off: every caller may do everything
+    keysFile: string; // see auth.ts for the format
+    anonymousRole: string; // role for calls without a key; empty rejects them
+  };
+}
+
+export const DEFAULT_CONFIG: ServerConfig = {
+  server: {
+    port: 8080,
+    corsOrigins: ["http://localhost:3000"],
+  },
+  priceSource: {
+    kind: "tradingview",
+  },
+  scraper: { ...DEFAULT_SCRAPER_OPTIONS },
+  simulator: {
+    tickers: "",
+    intervalMs: 1000,
+    seed: 42,
+    stallAfterTicks: 0,
+  },
+  stream: {
+    bufferSize: 256,
+    replaySize: 10000,
+  },
+  websocket: {
+    heartbeatSeconds: 30,
+  },
+  history: {
+    dir: "data/history",
+    retentionHours: 168,
+  },
+  candles: {
+    intervals: ["1s", "1m", "5m", "1h"],
+  },
+  state: {
+    file: "data/state.json",
+  },
+  watchdog: {
+    staleSeconds: 30,
+    maxRecoveries: 3,
+  },
+  health: {
+    freshnessSeconds: 60,
+    minLiveFraction: 0.5,
+  },
+  symbols: {
+    bundledFile: "symbols.json",
+    cacheFile: "data/symbols.json",
+    refreshHours: 24,
+    validationCacheSeconds: 600,
+  },
+  limits: {
+    maxTickers: 50,
+    maxPages: 60,
+    maxConcurrentValidations: 2,
+    validationQueueSize: 20,
+    ratePerMinute: 30,
+    rateBurst: 10,
+  },
+  shutdown: {
+    drainSeconds: 5,
+    closeSeconds: 10,
+  },
+  auth: {
+    enabled: false,
+    keysFile: "data/api-keys.json",
+    anonymousRole: "",
+  },
+};
+
+// Environment variables override the config file; lists are comma-separated
+const ENV_OVERRIDES: Record<string, string> = {
+  PORT: "server.port",
+  CORS_ORIGINS: "server.corsOrigins",
+  PRICE_SOURCE: "priceSource.kind",
+  SCRAPER_HEADLESS: "scraper.headless",
+  SCRAPER_VALIDATION_TIMEOUT_MS: "scraper.validationTimeoutMs",
+  SCRAPER_NAVIGATION_TIMEOUT_MS: "scraper.navigationTimeoutMs",
+  SCRAPER_SELECTOR_TIMEOUT_MS: "scraper.selectorTimeoutMs",
+  BROWSER_MAX_RECOVERY_ATTEMPTS: "scraper.maxRecoveryAttempts",
+  BROWSER_RETRY_DELAY_MS: "scraper.retryDelayMs",
+  SIM_TICKERS: "simulator.tickers",
+  SIM_INTERVAL_MS: "simulator.intervalMs",
+  SIM_SEED: "simulator.seed",
+  SIM_STALL_AFTER_TICKS: "simulator.stallAfterTicks",
+  STREAM_BUFFER_SIZE: "stream.bufferSize",
+  STREAM_REPLAY_SIZE: "stream.replaySize",
+  WS_HEARTBEAT_SECONDS: "websocket.heartbeatSeconds",
+  HISTORY_DIR: "history.dir",
+  HISTORY_RETENTION_HOURS: "history.retentionHours",
+  CANDLE_INTERVALS: "candles.intervals",
+  STATE_FILE: "state.file",
+  WATCHDOG_STALE_SECONDS: "watchdog.staleSeconds",
+  WATCHDOG_MAX_RECOVERIES: "watchdog.maxRecoveries",
+  HEALTH_FRESHNESS_SECONDS: "health.freshnessSeconds",
+  HEALTH_MIN_LIVE_FRACTION: "health.minLiveFraction",
+  SYMBOLS_FILE: "symbols.bundledFile",
+  SYMBOLS_CACHE_FILE: "symbols.cacheFile",
+  SYMBOLS_REFRESH_HOURS: "symbols.refreshHours",
+  VALIDATION_CACHE_SECONDS: "symbols.validationCacheSeconds",
+  LIMIT_MAX_TICKERS: "limits.maxTickers",
+  LIMIT_MAX_PAGES: "limits.maxPages",
+  LIMIT_CONCURRENT_VALIDATIONS: "limits.maxConcurrentValidations",
+  LIMIT_VALIDATION_QUEUE: "limits.validationQueueSize",
+  RATE_LIMIT_PER_MINUTE: "limits.ratePerMinute",
+  RATE_LIMIT_BURST: "limits.rateBurst",
+  SHUTDOWN_DRAIN_SECONDS: "shutdown.drainSeconds",
+  SHUTDOWN_CLOSE_SECONDS: "shutdown.closeSeconds",
+  AUTH_ENABLED: "auth.enabled",
+  AUTH_KEYS_FILE: "auth.keysFile",
+  AUTH_ANONYMOUS_ROLE: "auth.anonymousRole",
+};
+
+// Thrown with every problem found, so a bad config can be fixed in one go
+export class ConfigError extends Error {
+  constructor(public problems: string[]) {
+    super(`Invalid configuration:\n  - ${problems.join("\n  - ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+// Defaults, then the JSON config file (CONFIG_FILE, default ./config.json if present), then
+// environment variables. Throws ConfigError if any value is missing, mistyped or out of range.
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): ServerConfig {
+  const config: ServerConfig = JSON.parse(JSON.stringify(DEFAULT_CONFIG));
+  const problems: string[] = [];
+
+  const file = env.CONFIG_FILE ?? "config.json";
+  if (existsSync(file)) {
+    applyFile(config, file, problems);
+  } else if (env.CONFIG_FILE) {
+    problems.push(`CONFIG_FILE: ${file} does not exist`);
+  }
+
+  for (const [name, path] of Object.entries(ENV_OVERRIDES)) {
+    const raw = env[name];
+    if (raw === undefined || raw === "") continue;
+    const [section, key] = path.split(".");
+    const target = (config as any)[section];
+    const value = coerce(raw, target[key]);
+    if (value === undefined) {
+      problems.push(`${name}: expected ${describeType(target[key])}, got "${raw}"`);
+    } else {
+      target[key] = value;
+    }
+  }
+
+  problems.push(...validate(config));
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+  return config;
+}
+
+// Merge the file section by section; unknown keys are reported rather than silently ignored
+function applyFile(config: ServerConfig, file: string, problems: string[]): void {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(readFileSync(file, "utf8"));
+  } catch (err: any) {
+    problems.push(`${file}: ${err.message}`);
+    return;
+  }
+  if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+    problems.push(`${file}: expected a JSON object`);
+    return;
+  }
+
+  for (const [section, values] of Object.entries(parsed)) {
+    const target = (config as any)[section];
+    if (!target) {
+      problems.push(`${file}: unknown section "${section}"`);
+      continue;
+    }
+    if (typeof values !== "object" || values === null || Array.isArray(values)) {
+      problems.push(`${file} ${section}: expected an object`);
+      continue;
+    }
+
+    for (const [key, value] of Object.entries(values)) {
+      if (!(key in target)) {
+        problems.push(`${file} ${section}.${key}: unknown setting`);
+      } else if (!sameType(value, target[key])) {
+        problems.push(`${file} ${section}.${key}: expected ${describeType(target[key])}, got ${JSON.stringify(value)}`);
+      } else {
+        target[key] = value;
+      }
+    }
+  }
+}
+
+// Parse an environment string into the type of the default it replaces
+function coerce(raw: string, like: unknown): unknown {
+  if (typeof like === "number") {
+    const value = Number(raw);
+    return raw.trim() !== "" && Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof like === "boolean") {
+    if (/^(true|1|yes)$/i.test(raw)) return true;
+    if (/^(false|0|no)$/i.test(raw)) return false;
+    return undefined;
+  }
+  if (Array.isArray(like)) {
+    return raw.split(",").map(item => item.trim()).filter(item => item !== "");
+  }
+  return raw;
+}
+
+function sameType(value: unknown, like: unknown): boolean {
+  if (Array.isArray(like)) {
+    return Array.isArray(value) && value.every(item => typeof item === "string");
+  }
+  return typeof value === typeof like && (typeof value !== "number" || Number.isFinite(value));
+}
+
+function describeType(like: unknown): string {
+  if (Array.isArray(like)) return "a list of strings";
+  if (typeof like === "boolean") return "true or false";
+  return `a ${typeof like}`;
+}
+
+function validate(config: ServerConfig): string[] {
+  const problems: string[] = [];
+  const check = (ok: boolean, problem: string) => {
+    if (!ok) problems.push(problem);
+  };
+  const positiveInt = (value: number) => Number.isInteger(value) && value > 0;
+  const nonNegativeInt = (value: number) => Number.isInteger(value) && value >= 0;
+
+  check(Number.isInteger(config.server.port) && config.server.port > 0 && config.server.port < 65536,
+    `server.port: must be a port number between 1 and 65535, got ${config.server.port}`);
+  for (const origin of config.server.corsOrigins) {
+    check(origin === "*" || isOrigin(origin), `server.corsOrigins: "${origin}" is not an origin like http://localhost:3000 (or "*")`);
+  }
+
+  check(["tradingview", "simulated"].includes(config.priceSource.kind),
+    `priceSource.kind: must be "tradingview" or "simulated", got "${config.priceSource.kind}"`);
+
+  check(positiveInt(config.scraper.validationTimeoutMs), "scraper.validationTimeoutMs: must be a positive whole number of milliseconds");
+  check(positiveInt(config.scraper.navigationTimeoutMs), "scraper.navigationTimeoutMs: must be a positive whole number of milliseconds");
+  check(positiveInt(config.scraper.selectorTimeoutMs), "scraper.selectorTimeoutMs: must be a positive whole number of milliseconds");
+  check(config.scraper.priceSelectors.length > 0, "scraper.priceSelectors: at least one selector is required");
+  check(positiveInt(config.scraper.maxRecoveryAttempts), "scraper.maxRecoveryAttempts: must be at least 1");
+  check(nonNegativeInt(config.scraper.retryDelayMs), "scraper.retryDelayMs: must be 0 or more milliseconds");
+
+  if (config.simulator.tickers) {
+    try {
+      parseSimulatedTickers(config.simulator.tickers);
+    } catch (err: any) {
+      problems.push(`simulator.tickers: ${err.message}`);
+    }
+  }
+  check(positiveInt(config.simulator.intervalMs), "simulator.intervalMs: must be a positive whole number of milliseconds");
+  check(Number.isInteger(config.simulator.seed), "simulator.seed: must be a whole number");
+  check(nonNegativeInt(config.simulator.stallAfterTicks), "simulator.stallAfterTicks: must be 0 (never) or more");
+
+  check(positiveInt(config.stream.bufferSize), "stream.bufferSize: must be at least 1");
+  check(positiveInt(config.stream.replaySize), "stream.replaySize: must be at least 1");
+  check(config.websocket.heartbeatSeconds > 0, "websocket.heartbeatSeconds: must be greater than 0");
+  check(config.history.dir.trim() !== "", "history.dir: must not be empty");
+  check(config.history.retentionHours > 0, "history.retentionHours: must be greater than 0");
+
+  check(config.candles.intervals.length > 0, "candles.intervals: at least one interval is required");
+  for (const interval of config.candles.intervals) {
+    check(parseInterval(interval) !== null, `candles.intervals: "${interval}" is not an interval like 1s, 1m, 5m, 1h`);
+  }
+
+  check(config.state.file.trim() !== "", "state.file: must not be empty");
+  check(config.watchdog.staleSeconds > 0, "watchdog.staleSeconds: must be greater than 0");
+  check(positiveInt(config.watchdog.maxRecoveries), "watchdog.maxRecoveries: must be at least 1");
+  check(config.health.freshnessSeconds > 0, "health.freshnessSeconds: must be greater than 0");
+  check(config.health.minLiveFraction >= 0 && config.health.minLiveFraction <= 1,
+    `health.minLiveFraction: must be between 0 and 1, got ${config.health.minLiveFraction}`);
+  check(config.symbols.bundledFile.trim() !== "", "symbols.bundledFile: must not be empty");
+  check(config.symbols.cacheFile.trim() !== "", "symbols.cacheFile: must not be empty");
+  check(config.symbols.refreshHours >= 0 && config.symbols.refreshHours <= 24 * 24,
+    "symbols.refreshHours: must be between 0 (never) and 576 (24 days)");
+  check(config.symbols.validationCacheSeconds >= 0, "symbols.validationCacheSeconds: must be 0 (no caching) or more");
+  check(nonNegativeInt(config.limits.maxTickers), "limits.maxTickers: must be 0 (no limit) or more");
+  check(nonNegativeInt(config.limits.maxPages), "limits.maxPages: must be 0 (no limit) or more");
+  check(positiveInt(config.limits.maxConcurrentValidations), "limits.maxConcurrentValidations: must be at least 1");
+  check(nonNegativeInt(config.limits.validationQueueSize), "limits.validationQueueSize: must be 0 or more");
+  check(config.limits.ratePerMinute >= 0, "limits.ratePerMinute: must be 0 (no limit) or more");
+  check(positiveInt(config.limits.rateBurst), "limits.rateBurst: must be at least 1");
+  check(config.shutdown.drainSeconds > 0, "shutdown.drainSeconds: must be greater than 0");
+  check(config.shutdown.closeSeconds > 0, "shutdown.closeSeconds: must be greater than 0");
+
+  check(config.auth.keysFile.trim() !== "", "auth.keysFile: must not be empty");
+  check(["", "viewer", "editor"].includes(config.auth.anonymousRole),
+    `auth.anonymousRole: must be empty, "viewer" or "editor", got "${config.auth.anonymousRole}"`);
+  return problems;
+}
+
+function isOrigin(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return (url.protocol === "http:" || url.protocol === "https:") && url.origin === value;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,89 @@
+// Prices travel as exact decimal strings ("65012.50", "0.00002451") from the source to the
+// client so no precision is lost to floats. Numbers are only derived where arithmetic is needed
+// (alert thresholds, percent change), never to produce a price that is shown or stored.
+
+const DECIMAL_PATTERN = /^-?\d+(\.\d+)?$/;
+
+// Pull a price out of display text such as "$65,012.50", "0.00002451 USDT" or "−1.5";
+// returns the decimal string as written (trailing zeros kept), or null if there is none
+export function parseDecimal(text: string | null | undefined): string | null {
+  if (!text) return null;
+  const cleaned = text.replace(/−/g, "-").replace(/[\$,\s]/g, "");
+  const match = /-?\d+(?:\.\d+)?/.exec(cleaned);
+  return match ? normalizeDecimal(match[0]) : null;
+}
+
+// Like parseDecimal, but expands the K/M/B/T suffixes used for volumes ("12.35K" -> "12350")
+export function parseAbbreviatedDecimal(text: string | null | undefined): string | null {
+  const value = parseDecimal(text);
+  if (value === null) return null;
+  const suffix = /\d\s*([KMBT])\b/i.exec(text!.replace(/,/g, ""));
+  const exponent = suffix ? { K: 3, M: 6, B: 9, T: 12 }[suffix[1].toUpperCase() as "K" | "M" | "B" | "T"] : 0;
+  return exponent ? shiftDecimal(value, exponent) : value;
+}
+
+export function isDecimal(value: string): boolean {
+  return DECIMAL_PATTERN.test(value);
+}
+
+// Strip redundant leading zeros ("007.50" -> "7.50"); fractional digits are left untouched
+export function normalizeDecimal(value: string): string {
+  const negative = value.startsWith("-");
+  const [integer, fraction] = (negative ? value.slice(1) : value).split(".");
+  const digits = integer.replace(/^0+(?=\d)/, "");
+  const normalized = fraction !== undefined ? `${digits}.${fraction}` : digits;
+  return negative && /[1-9]/.test(normalized) ? `-${normalized}` : normalized;
+}
+
+// Number of digits after the decimal point, i.e. the precision the source quotes at
+export function decimalPlaces(value: string): number {
+  const dot = value.indexOf(".");
+  return dot === -1 ? 0 : value.length - dot - 1;
+}
+
+// Exact comparison of two decimal strings: negative if a < b, 0 if equal, positive if a > b
+export function compareDecimals(a: string, b: string): number {
+  const negativeA = a.startsWith("-");
+  const negativeB = b.startsWith("-");
+  if (negativeA !== negativeB) {
+    return isZero(a) && isZero(b) ? 0 : negativeA ? -1 : 1;
+  }
+  const magnitude = compareMagnitudes(negativeA ? a.slice(1) : a, negativeB ? b.slice(1) : b);
+  return negativeA ? -magnitude : magnitude;
+}
+
+// Round a computed value (e.g. a simulated random walk) to a fixed number of decimals
+export function formatDecimal(value: number, places: number): string {
+  const text = value.toFixed(Math.min(Math.max(places, 0), 100));
+  return isZero(text) ? text.replace("-", "") : text; // no "-0.00"
+}
+
+// Multiply by 10^exponent by moving the decimal point, so no digits are lost
+function shiftDecimal(value: string, exponent: number): string {
+  const negative = value.startsWith("-");
+  const [integer, fraction = ""] = (negative ? value.slice(1) : value).split(".");
+  const digits = integer + fraction.padEnd(exponent, "0");
+  const point = integer.length + exponent;
+  const shifted = normalizeDecimal(
+    point < digits.length ? `${digits.slice(0, point)}.${digits.slice(point)}` : digits
+  );
+  return negative ? `-${shifted}` : shifted;
+}
+
+function compareMagnitudes(a: string, b: string): number {
+  const [integerA, fractionA = ""] = a.split(".");
+  const [integerB, fractionB = ""] = b.split(".");
+  const intA = integerA.replace(/^0+/, "");
+  const intB = integerB.replace(/^0+/, "");
+  if (intA.length !== intB.length) return intA.length - intB.length;
+  if (intA !== intB) return intA < intB ? -1 : 1;
+
+  const width = Math.max(fractionA.length, fractionB.length);
+  const fracA = fractionA.padEnd(width, "0");
+  const fracB = fractionB.padEnd(width, "0");
+  return fracA === fracB ? 0 : fracA < fracB ? -1 : 1;
+}
+
+function isZero(value: string): boolean {
+  return !/[1-9]/.test(value);
+}
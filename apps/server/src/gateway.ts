@@ -0,0 +1,370 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { Code, ConnectError, Transport, createPromiseClient } from "@connectrpc/connect";
+import { CryptoStreamService } from "../../../packages/tradingview-gen/proto/crypto-stream_connect";
+import { WatchlistFormat } from "../../../packages/tradingview-gen/proto/crypto-stream_pb";
+import { CLIENT_ADDRESS_HEADER } from "./limits";
+import { DEFAULT_EXCHANGE } from "./priceSource";
+
+// HTTP status for each RPC error code, as in the Connect protocol
+const HTTP_STATUS: Record<Code, number> = {
+  [Code.Canceled]: 499,
+  [Code.Unknown]: 500,
+  [Code.InvalidArgument]: 400,
+  [Code.DeadlineExceeded]: 504,
+  [Code.NotFound]: 404,
+  [Code.AlreadyExists]: 409,
+  [Code.PermissionDenied]: 403,
+  [Code.ResourceExhausted]: 429,
+  [Code.FailedPrecondition]: 400,
+  [Code.Aborted]: 409,
+  [Code.OutOfRange]: 400,
+  [Code.Unimplemented]: 501,
+  [Code.Internal]: 500,
+  [Code.Unavailable]: 503,
+  [Code.DataLoss]: 500,
+  [Code.Unauthenticated]: 401,
+};
+
+// Request headers passed through to the RPC handlers (auth and watchlist ownership)
+const FORWARDED_HEADERS = ["authorization", "x-api-key", "x-session-id"];
+
+const MAX_BODY_BYTES = 64 * 1024;
+const SSE_KEEPALIVE_MS = 15_000;
+const SSE_FIRST_UPDATE_WAIT_MS = 1000; // how long a stream may take to fail before headers go out
+const MAX_SEQUENCE = 2n ** 64n - 1n; // uint64
+
+// Thrown for malformed gateway requests before they reach an RPC
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+export type GatewayHandler = (req: IncomingMessage, res: ServerResponse) => boolean;
+
+// Plain HTTP/JSON and Server-Sent Events for clients that don't speak Connect:
+//   GET    /api/tickers                  tickers in a watchlist (?watchlist=<id>)
+//   POST   /api/tickers                  {"ticker", "exchange"?, "watchlistId"?}
+//   GET    /api/tickers/:symbol          one ticker (?exchange=, ?watchlist=)
+//   DELETE /api/tickers/:symbol          remove from a watchlist (?exchange=, ?watchlist=)
+//   GET    /api/symbols                  symbol search (?q=btc&exchange=&limit=)
+//   GET    /api/watchlists/export        download a watchlist (?watchlist=&format=json|csv)
+//   POST   /api/watchlists/import        JSON or CSV file as the body (?format=&name=&watchlist=)
+//   GET    /api/stream                   SSE of PriceUpdate JSON (?tickers=A,B&exchange=&watchlist=&resume_from=)
+// Calls go through an in-process transport to the same RPC handlers, so auth, watchlists
+// and the streaming broadcast are shared with Connect clients. Returns false for other paths.
+export function createGateway(transport: Transport): GatewayHandler {
+  const client = createPromiseClient(CryptoStreamService, transport);
+
+  const routes: { method: string; pattern: RegExp; handle: (ctx: GatewayRequest) => Promise<void> }[] = [
+    {
+      method: "GET",
+      pattern: /^\/api\/tickers$/,
+      handle: async ({ url, headers, res }) => {
+        const response = await client.getActiveTickers({ watchlistId: param(url, "watchlist") }, { headers });
+        sendJson(res, 200, response.toJson());
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/api\/tickers$/,
+      handle: async ({ req, headers, res }) => {
+        const { ticker, exchange, watchlistId } = await readJson(req);
+        if (typeof ticker !== "string" || ticker.trim() === "") {
+          throw new HttpError(400, `"ticker" is required`);
+        }
+        const response = await client.addTicker(
+          {
+            ticker: ticker.trim(),
+            exchange: typeof exchange === "string" ? exchange : "",
+            watchlistId: typeof watchlistId === "string" ? watchlistId : "",
+          },
+          { headers }
+        );
+        sendJson(res, response.success ? 201 : 400, response.toJson({ emitDefaultValues: true }));
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/api\/tickers\/([^/]+)$/,
+      handle: async ({ url, match, headers, res }) => {
+        const symbol = match[1].toUpperCase();
+        const exchange = param(url, "exchange").toUpperCase() || DEFAULT_EXCHANGE;
+        const response = await client.getActiveTickers({ watchlistId: param(url, "watchlist") }, { headers });
+        const ticker = response.tickers.find(t => t.symbol === symbol && t.exchange === exchange);
+        if (!ticker) {
+          throw new HttpError(404, `Ticker ${exchange}:${symbol} is not in the watchlist`);
+        }
+        sendJson(res, 200, ticker.toJson());
+      },
+    },
+    {
+      method: "DELETE",
+      pattern: /^\/api\/tickers\/([^/]+)$/,
+      handle: async ({ url, match, headers, res }) => {
+        const response = await client.removeTicker(
+          { ticker: match[1], exchange: param(url, "exchange"), watchlistId: param(url, "watchlist") },
+          { headers }
+        );
+        sendJson(res, response.success ? 200 : 404, response.toJson({ emitDefaultValues: true }));
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/api\/symbols$/,
+      handle: async ({ url, headers, res }) => {
+        const limit = Number(param(url, "limit") || 0);
+        if (!Number.isInteger(limit) || limit < 0) {
+          throw new HttpError(400, `"limit" must be a whole number`);
+        }
+        const response = await client.searchSymbols(
+          { query: param(url, "q"), exchange: param(url, "exchange"), limit },
+          { headers }
+        );
+        sendJson(res, 200, response.toJson({ emitDefaultValues: true }));
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/api\/watchlists\/export$/,
+      handle: async ({ url, headers, res }) => {
+        const response = await client.exportWatchlist(
+          { watchlistId: param(url, "watchlist"), format: watchlistFormat(param(url, "format")) },
+          { headers }
+        );
+        res.writeHead(200, {
+          "Content-Type": response.contentType,
+          "Content-Disposition": `attachment; filename="${response.filename}"`,
+        });
+        res.end(response.content);
+      },
+    },
+    {
+      method: "POST",
+      pattern: /^\/api\/watchlists\/import$/,
+      handle: async ({ req, url, headers, res }) => {
+        // format from ?format=, else from the Content-Type
+        const format = param(url, "format") || (req.headers["content-type"]?.startsWith("text/csv") ? "csv" : "json");
+        const response = await client.importWatchlist(
+          {
+            content: (await readBody(req)).toString("utf8"),
+            format: watchlistFormat(format),
+            name: param(url, "name"),
+            watchlistId: param(url, "watchlist"),
+          },
+          { headers }
+        );
+        sendJson(res, 200, response.toJson({ emitDefaultValues: true }));
+      },
+    },
+    {
+      method: "GET",
+      pattern: /^\/api\/stream$/,
+      handle: async ({ req, url, headers, res }) => {
+        const abort = new AbortController();
+        req.on("close", () => abort.abort());
+
+        const stream = client.streamPrices(
+          {
+            tickers: param(url, "tickers").split(",").filter(ticker => ticker.trim() !== ""),
+            exchange: param(url, "exchange"),
+            watchlistId: param(url, "watchlist"),
+            resumeFrom: resumePoint(req.headers["last-event-id"] ?? param(url, "resume_from")),
+          },
+          { headers, signal: abort.signal }
+        );
+
+        // A bad watchlist or API key fails the stream before its first update; wait briefly for that
+        // update so such errors get their own HTTP status rather than an error event after a 200
+        const updates = stream[Symbol.asyncIterator]();
+        const first = updates.next();
+        let waiting: NodeJS.Timeout | undefined;
+        await Promise.race([first, new Promise(resolve => (waiting = setTimeout(resolve, SSE_FIRST_UPDATE_WAIT_MS)))])
+          .finally(() => clearTimeout(waiting));
+
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          Connection: "keep-alive",
+        });
+        res.write(": connected\n\n");
+        // comment lines keep proxies from closing a quiet stream
+        const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), SSE_KEEPALIVE_MS);
+
+        try {
+          for (let next = await first; !next.done; next = await updates.next()) {
+            const update = next.value;
+            // the last update before a server shutdown and the reset before a fresh snapshot get their
+            // own event types; the sequence is the event id, so EventSource resumes on its own
+            const event = update.shutdown ? "event: shutdown\n" : update.reset ? "event: reset\n" : "";
+            const flushed = res.write(`${event}id: ${update.sequence}\ndata: ${JSON.stringify(update.toJson())}\n\n`);
+            // a slow client: stop pulling until the socket catches up, so its stream channel conflates
+            // prices instead of Node buffering every one of them
+            if (!flushed) await drained(res);
+          }
+        } catch (err) {
+          if (abort.signal.aborted) return; // client went away
+          // headers are already out, so the error travels as a final event
+          const connectErr = ConnectError.from(err);
+          const error = { code: codeName(connectErr.code), message: connectErr.rawMessage };
+          res.write(`event: error\ndata: ${JSON.stringify(error)}\n\n`);
+        } finally {
+          clearInterval(keepAlive);
+        }
+        res.end();
+      },
+    },
+  ];
+
+  return (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (!url.pathname.startsWith("/api/")) return false;
+
+    const route = routes.find(r => r.method === req.method && r.pattern.test(url.pathname));
+    if (!route) {
+      sendError(res, 404, "not_found", `No route for ${req.method} ${url.pathname}`);
+      return true;
+    }
+
+    const headers = forwardedHeaders(req);
+    // the path is decoded inside the promise, so a malformed escape is answered like any other error
+    (async () => {
+      const match = route.pattern.exec(url.pathname)!.map(part => (part ? decodePathPart(part) : part));
+      await route.handle({ req, res, url, match, headers });
+    })().catch(err => {
+      if (err instanceof HttpError) {
+        sendError(res, err.status, httpErrorCode(err.status), err.message);
+        return;
+      }
+      const connectErr = ConnectError.from(err);
+      if (connectErr.code === Code.Internal || connectErr.code === Code.Unknown) {
+        console.error(`Gateway ${req.method} ${url.pathname} failed:`, err);
+      }
+      const retryAfter = connectErr.metadata.get("retry-after"); // set by the rate limiter
+      if (retryAfter) res.setHeader("Retry-After", retryAfter);
+      sendError(res, httpStatus(connectErr.code), codeName(connectErr.code), connectErr.rawMessage);
+    });
+    return true;
+  };
+}
+
+interface GatewayRequest {
+  req: IncomingMessage;
+  res: ServerResponse;
+  url: URL;
+  match: string[];
+  headers: Headers;
+}
+
+// A malformed escape (%E0%A4%A) is the caller's mistake, not a server error
+function decodePathPart(part: string): string {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    throw new HttpError(400, `Malformed URL escape in "${part}"`);
+  }
+}
+
+function param(url: URL, name: string): string {
+  return url.searchParams.get(name) ?? "";
+}
+
+// Last-Event-ID or ?resume_from=; anything that isn't a sequence means start fresh
+function resumePoint(value: string | string[]): bigint {
+  const text = (Array.isArray(value) ? value[0] : value).trim();
+  const sequence = /^\d{1,20}$/.test(text) ? BigInt(text) : 0n;
+  return sequence <= MAX_SEQUENCE ? sequence : 0n;
+}
+
+function watchlistFormat(value: string): WatchlistFormat {
+  switch (value.toLowerCase()) {
+    case "":
+    case "json":
+      return WatchlistFormat.JSON;
+    case "csv":
+      return WatchlistFormat.CSV;
+    default:
+      throw new HttpError(400, `"format" must be json or csv`);
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  let size = 0;
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body is larger than ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  const text = (await readBody(req)).toString("utf8");
+  try {
+    const body: unknown = JSON.parse(text);
+    if (typeof body === "object" && body !== null && !Array.isArray(body)) return body as Record<string, unknown>;
+  } catch {
+    // reported below
+  }
+  throw new HttpError(400, "Request body must be a JSON object");
+}
+
+// Resolves once a full response buffer has been written out, or the response closed
+function drained(res: ServerResponse): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      res.off("drain", done);
+      res.off("close", done);
+      resolve();
+    };
+    res.on("drain", done);
+    res.on("close", done);
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+// Same error shape as Connect's JSON errors: {"code": "not_found", "message": "..."}
+function sendError(res: ServerResponse, status: number, code: string, message: string): void {
+  sendJson(res, status, { code, message });
+}
+
+// Headers of a plain HTTP request to pass on to the RPC handlers, plus the caller's address for
+// rate limiting
+export function forwardedHeaders(req: IncomingMessage): Headers {
+  const headers = new Headers();
+  for (const name of FORWARDED_HEADERS) {
+    const value = req.headers[name];
+    if (typeof value === "string") headers.set(name, value);
+  }
+  headers.set(CLIENT_ADDRESS_HEADER, req.socket.remoteAddress ?? "unknown");
+  return headers;
+}
+
+// Error code name for a gateway's own HTTP error, as the RPCs would report the same problem
+function httpErrorCode(status: number): string {
+  switch (status) {
+    case 404:
+      return codeName(Code.NotFound);
+    case 413:
+      return codeName(Code.ResourceExhausted);
+    default:
+      return codeName(Code.InvalidArgument);
+  }
+}
+
+export function httpStatus(code: Code): number {
+  return HTTP_STATUS[code];
+}
+
+// Code.PermissionDenied -> "permission_denied"
+export function codeName(code: Code): string {
+  return Code[code].replace(/([a-z])([A-Z])/g, "$1_$2").toLowerCase();
+}
@@ -0,0 +1,63 @@
+import { SourceComponent } from "./priceSource";
+
+export interface HealthOptions {
+  freshnessMs: number; // a ticker is live if it ticked within this long
+  minLiveFraction: number; // share of tracked tickers that must be live, 0..1
+}
+
+export interface ComponentStatus {
+  ok: boolean;
+  detail: string;
+}
+
+export interface TickersStatus extends ComponentStatus {
+  live: number;
+  total: number;
+  notLive: string[]; // exchange:symbol keys without a recent tick
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  checkedAt: string; // ISO 8601
+  components: Record<string, ComponentStatus | TickersStatus>;
+}
+
+// A tracked ticker as the readiness check sees it
+export interface TickerFreshness {
+  key: string; // exchange:symbol
+  lastUpdated: number | null; // ms since epoch, null before the first tick
+}
+
+// Ready when every price source component is usable and enough tickers have fresh prices.
+// With no tickers tracked, only the source matters.
+export function checkReadiness(
+  source: SourceComponent[],
+  tickers: TickerFreshness[],
+  options: HealthOptions,
+  now = Date.now()
+): ReadinessReport {
+  const components: ReadinessReport["components"] = {};
+  for (const component of source) {
+    components[component.name] = { ok: component.ok, detail: component.detail };
+  }
+
+  const notLive = tickers
+    .filter(ticker => ticker.lastUpdated === null || now - ticker.lastUpdated > options.freshnessMs)
+    .map(ticker => ticker.key)
+    .sort();
+  const live = tickers.length - notLive.length;
+  const required = Math.ceil(tickers.length * options.minLiveFraction);
+  components.tickers = {
+    ok: live >= required,
+    detail: `${live} of ${tickers.length} tickers live within ${options.freshnessMs / 1000}s (need ${required})`,
+    live,
+    total: tickers.length,
+    notLive,
+  };
+
+  return {
+    ready: Object.values(components).every(component => component.ok),
+    checkedAt: new Date(now).toISOString(),
+    components,
+  };
+}
@@ -0,0 +1,135 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { tickerKey } from "./priceSource";
+import { isDecimal } from "./decimal";
+
+export interface HistoryOptions {
+  // Directory holding one append-only file per exchange:symbol
+  dir: string;
+  // Ticks older than this are pruned
+  retentionMs: number;
+  // How often old ticks are pruned
+  pruneIntervalMs?: number;
+}
+
+export interface PricePointData {
+  timestamp: number; // ms since epoch
+  price: string; // exact decimal, as received
+}
+
+// Append-only tick store: each accepted price is written as a "timestamp,price" line
+// to <dir>/<EXCHANGE>_<SYMBOL>.csv. Writes to the same file are serialized.
+export class PriceHistory {
+  private writes: Map<string, Promise<void>> = new Map(); // Last pending write per file
+  private pruneTimer: NodeJS.Timeout | null = null;
+  private ready: Promise<void>;
+
+  constructor(private options: HistoryOptions) {
+    this.ready = fs.mkdir(options.dir, { recursive: true }).then(() => undefined);
+
+    this.pruneTimer = setInterval(() => {
+      this.prune().catch(err => console.error("Failed to prune price history:", err));
+    }, options.pruneIntervalMs ?? 60 * 60 * 1000);
+    this.pruneTimer.unref(); // don't keep the process alive just for pruning
+  }
+
+  // Append a tick; failures are logged, never thrown into the price callback
+  record(symbol: string, exchange: string, price: string, timestamp: number): void {
+    const file = this.fileFor(symbol, exchange);
+    this.enqueue(file, async () => {
+      await fs.appendFile(file, `${timestamp},${price}\n`);
+    });
+  }
+
+  // Ticks in [from, to] (0 = unbounded), oldest first, keeping only the most recent `limit`
+  async query(
+    symbol: string,
+    exchange: string,
+    from: number,
+    to: number,
+    limit: number
+  ): Promise<PricePointData[]> {
+    const file = this.fileFor(symbol, exchange);
+    await this.writes.get(file); // include ticks still being written
+
+    let content: string;
+    try {
+      content = await fs.readFile(file, "utf8");
+    } catch (err: any) {
+      if (err.code === "ENOENT") return [];
+      throw err;
+    }
+
+    const points = parseLines(content).filter(
+      point => (!from || point.timestamp >= from) && (!to || point.timestamp <= to)
+    );
+    return limit > 0 ? points.slice(-limit) : points;
+  }
+
+  // Drop ticks older than the retention window from every file
+  async prune(): Promise<void> {
+    await this.ready;
+    const cutoff = Date.now() - this.options.retentionMs;
+
+    for (const name of await fs.readdir(this.options.dir)) {
+      if (!name.endsWith(".csv")) continue;
+      const file = path.join(this.options.dir, name);
+
+      await this.enqueue(file, async () => {
+        const points = parseLines(await fs.readFile(file, "utf8"));
+        const kept = points.filter(point => point.timestamp >= cutoff);
+        if (kept.length === points.length) return;
+
+        if (kept.length === 0) {
+          await fs.unlink(file);
+        } else {
+          // Write to a temp file and swap it in so a crash never leaves a half-written file
+          const tmp = `${file}.tmp`;
+          await fs.writeFile(tmp, kept.map(point => `${point.timestamp},${point.price}\n`).join(""));
+          await fs.rename(tmp, file);
+        }
+        console.log(`Pruned ${points.length - kept.length} old ticks from ${name}`);
+      });
+    }
+  }
+
+  // Stop pruning and wait for pending writes
+  async close(): Promise<void> {
+    if (this.pruneTimer) {
+      clearInterval(this.pruneTimer);
+      this.pruneTimer = null;
+    }
+    await Promise.all(this.writes.values());
+  }
+
+  private fileFor(symbol: string, exchange: string): string {
+    const name = tickerKey(exchange, symbol).replace(/[^A-Za-z0-9.-]/g, "_");
+    return path.join(this.options.dir, `${name}.csv`);
+  }
+
+  // Chain a file operation after the previous one on the same file
+  private enqueue(file: string, operation: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(file) ?? this.ready;
+    const next = previous
+      .then(operation)
+      .catch(err => console.error(`Price history write failed for ${file}:`, err));
+
+    this.writes.set(file, next);
+    next.then(() => {
+      if (this.writes.get(file) === next) this.writes.delete(file);
+    });
+    return next;
+  }
+}
+
+function parseLines(content: string): PricePointData[] {
+  const points: PricePointData[] = [];
+  for (const line of content.split("\n")) {
+    const [rawTimestamp, price] = line.split(",");
+    const timestamp = Number(rawTimestamp);
+    if (line && !isNaN(timestamp) && price !== undefined && isDecimal(price)) {
+      points.push({ timestamp, price });
+    }
+  }
+  return points;
+}
@@ -1,217 +1,1528 @@
 import { createServer } from "http";
 import { connectNodeAdapter } from "@connectrpc/connect-node";
 import { CryptoStreamService } from "../../../packages/tradingview-gen/proto/crypto-stream_connect";
-import { HandlerContext } from "@connectrpc/connect";
+import { Code, ConnectError, HandlerContext, Interceptor, createContextValues, createRouterTransport } from "@connectrpc/connect";
 import {
     AddTickerRequest,
     AddTickerResponse,
     RemoveTickerRequest,
     RemoveTickerResponse,
     StreamPricesRequest,
-    PriceUpdate
+    PriceUpdate,
+    GetActiveTickersRequest,
+    GetActiveTickersResponse,
+    TickerInfo,
+    UpdateStreamFilterRequest,
+    UpdateStreamFilterResponse,
+    GetPriceHistoryRequest,
+    GetPriceHistoryResponse,
+    PricePoint,
+    StreamCandlesRequest,
+    GetCandlesRequest,
+    GetCandlesResponse,
+    Candle,
+    Quote,
+    TickerStatus,
+    AlertType,
+    AlertRule,
+    AlertNotification,
+    CreateAlertRequest,
+    CreateAlertResponse,
+    ListAlertsRequest,
+    ListAlertsResponse,
+    DeleteAlertRequest,
+    DeleteAlertResponse,
+    StreamAlertsRequest,
+    Watchlist,
+    CreateWatchlistRequest,
+    CreateWatchlistResponse,
+    ListWatchlistsRequest,
+    ListWatchlistsResponse,
+    DeleteWatchlistRequest,
+    DeleteWatchlistResponse,
+    SearchSymbolsRequest,
+    SearchSymbolsResponse,
+    SymbolInfo,
+    TickerRef,
+    TickerResult,
+    AddTickersRequest,
+    AddTickersResponse,
+    RemoveTickersRequest,
+    RemoveTickersResponse,
+    WatchlistFormat,
+    ExportWatchlistRequest,
+    ExportWatchlistResponse,
+    ImportWatchlistRequest,
+    ImportWatchlistResponse
 } from "../../../packages/tradingview-gen/proto/crypto-stream_pb";
 import { TradingViewScraper } from "./scraper";
+import { UpdateChannel } from "./channel";
+import { PriceHistory } from "./history";
+import { CandleAggregator, CandleData, buildCandles, parseInterval } from "./candles";
+import { StateStore, SavedTicker, SavedWatchlist } from "./state";
+import { AlertEngine, AlertRuleData, AlertTrigger } from "./alerts";
+import { FeedWatchdog } from "./watchdog";
+import { SimulatedPriceSource, parseSimulatedTickers } from "./simulator";
+import { PriceSource, QuoteData, EXCHANGES, SYMBOL_PATTERN, normalizeTicker, tickerKey } from "./priceSource";
+import { ConfigError, ServerConfig, loadConfig } from "./config";
+import { ApiKeyStore, MethodRoles, Role, canModify, createAuthInterceptor, principalKey } from "./auth";
+import { codeName, createGateway } from "./gateway";
+import { PriceWebSocketServer } from "./websocket";
+import { ServerMetrics } from "./metrics";
+import { checkReadiness } from "./health";
+import { ConcurrencyLimiter, RateLimiter, clientAddressKey, createRateLimitInterceptor } from "./limits";
+import { SymbolCatalog, ValidationCache } from "./symbols";
+import { WatchlistFileFormat, formatWatchlistFile, parseWatchlistFile, watchlistFileName } from "./watchlistFile";
+import { ANONYMOUS_OWNER, WatchlistData, WatchlistStore, sessionOwner } from "./watchlists";
+import { ReplayLog } from "./replay";
 
-// In-memory storage for active tickers with prices
+// Settings from config.json and the environment; a bad value stops startup with every problem listed
+function loadConfigOrExit(): ServerConfig {
+    try {
+        return loadConfig();
+    } catch (err) {
+        if (err instanceof ConfigError) {
+            console.error(err.message);
+            process.exit(1);
+        }
+        throw err;
+    }
+}
+
+const config = loadConfigOrExit();
+
+// In-memory storage for active tickers with prices, keyed by exchange:symbol
 interface TickerData {
     symbol: string;
-    currentPrice: number | null;
+    exchange: string;
+    currentPrice: string | null; // exact decimal, as quoted by the price source
     lastUpdated: Date | null;
+    subscribed: boolean; // true once the price source feed is attached
+    status: TickerStatus;
+    addedAt: Date;
+    quote: QuoteData; // latest daily stats, merged as the source reports them
+    addedBy: string | null; // API key name; null when added with auth disabled
 }
 
 const activeTickers = new Map<string, TickerData>();
-const scraper = new TradingViewScraper();
+
+// Named watchlists per user; a ticker's feed runs while at least one watchlist includes it
+const watchlists = new WatchlistStore();
+
+// Max updates buffered per streaming client before prices are conflated
+const STREAM_BUFFER_SIZE = config.stream.bufferSize;
+
+// Every update sent to price streams gets the next sequence and is kept for a while, so a client
+// that reconnects with resume_from gets what it missed. watchlist is null for broadcasts.
+type SentUpdate = { update: PriceUpdate; watchlist: WatchlistData | null };
+const replayLog = new ReplayLog<SentUpdate>(config.stream.replaySize, BigInt(Date.now()) * 1000n);
+
+// Every accepted tick is appended to a per-ticker file for GetPriceHistory
+const priceHistory = new PriceHistory({
+    dir: config.history.dir,
+    retentionMs: config.history.retentionHours * 60 * 60 * 1000
+});
+const DEFAULT_HISTORY_LIMIT = 1000;
+const DEFAULT_CANDLE_LIMIT = 500;
+
+// Tracked tickers and alert rules are saved here and restored on the next start
+const stateStore = new StateStore(config.state.file);
+
+function saveState() {
+    stateStore.save({
+        tickers: Array.from(activeTickers.values()).map(ticker => ({
+            symbol: ticker.symbol,
+            exchange: ticker.exchange,
+            addedAt: ticker.addedAt.toISOString(),
+            addedBy: ticker.addedBy ?? undefined
+        })),
+        alerts: alertEngine.list(),
+        watchlists: watchlists.toSaved()
+    });
+}
+
+// Pick the price source at startup: PRICE_SOURCE=simulated runs fully offline
+function createPriceSource(): PriceSource {
+    switch (config.priceSource.kind) {
+        case "tradingview":
+            return new TradingViewScraper(config.scraper);
+        case "simulated":
+            return new SimulatedPriceSource({
+                tickers: config.simulator.tickers ? parseSimulatedTickers(config.simulator.tickers) : undefined,
+                intervalMs: config.simulator.intervalMs,
+                seed: config.simulator.seed,
+                stallAfterTicks: config.simulator.stallAfterTicks
+            });
+    }
+}
+
+const priceSource = createPriceSource();
+console.log(`Using price source: ${config.priceSource.kind}`);
+
+// Every validation opens a page of its own, so only a few run at once and the rest wait in line
+const validations = new ConcurrencyLimiter(
+    config.limits.maxConcurrentValidations,
+    config.limits.validationQueueSize,
+    "ticker validations"
+);
+
+// Local symbol catalog behind SearchSymbols, and recent validation results so retried typos fail fast
+const symbolCatalog = new SymbolCatalog({
+    bundledFile: config.symbols.bundledFile,
+    // the simulator's few symbols shouldn't replace the real catalog on disk
+    cacheFile: config.priceSource.kind === "tradingview" ? config.symbols.cacheFile : undefined
+});
+const validationCache = new ValidationCache(config.symbols.validationCacheSeconds * 1000);
+const DEFAULT_SEARCH_LIMIT = 20;
+const MAX_SEARCH_LIMIT = 100;
+
+function refreshSymbols() {
+    symbolCatalog.refresh(EXCHANGES, exchange => priceSource.listSymbols(exchange))
+        .catch(err => console.error("Symbol catalog refresh failed:", err));
+}
+
+// Throws RESOURCE_EXHAUSTED when a new ticker would go over the ticker or browser tab limit.
+// newPages: tabs the caller is about to open, on top of ticker pages and running validations.
+function checkCapacity(newPages: number) {
+    const { maxTickers, maxPages } = config.limits;
+    if (maxTickers > 0 && activeTickers.size >= maxTickers) {
+        throw new ConnectError(
+            `The server already tracks its maximum of ${maxTickers} tickers; remove one first (tickers other watchlists track can still be added)`,
+            Code.ResourceExhausted
+        );
+    }
+    if (maxPages > 0 && priceSource.openPages() + validations.active + newPages > maxPages) {
+        throw new ConnectError(
+            `All ${maxPages} browser tabs are in use; try again once other tickers have been added or removed`,
+            Code.ResourceExhausted
+        );
+    }
+}
+
+// Which updates a streaming client wants; empty tickers/exchange means everything
+interface StreamFilter {
+    tickers: Set<string>;
+    exchange: string;
+}
+
+function createStreamFilter(tickers: string[], exchange: string): StreamFilter {
+    return {
+        tickers: new Set(tickers.map(t => t.toUpperCase().trim()).filter(t => t !== "")),
+        exchange: exchange.toUpperCase().trim()
+    };
+}
+
+// Filter entries are a symbol (any exchange) or EXCHANGE:SYMBOL
+function matchesFilter(filter: StreamFilter, ticker: string, exchange: string): boolean {
+    if (filter.tickers.size > 0 && !filter.tickers.has(ticker) && !filter.tickers.has(tickerKey(exchange, ticker))) return false;
+    if (filter.exchange && filter.exchange !== exchange) return false;
+    return true;
+}
+
+// Bounded channel for one streaming client: prices conflate per ticker,
+// removals and status-only updates are never dropped
+function createPriceChannel(): UpdateChannel<PriceUpdate> {
+    return new UpdateChannel<PriceUpdate>({
+        capacity: STREAM_BUFFER_SIZE,
+        key: update => tickerKey(update.exchange, update.ticker),
+        durable: update => update.removed || update.price === ""
+    });
+}
 
 // Register streaming clients 
 type StreamClient = {
-    send: (update: PriceUpdate) => void;
-    close: () => void;
+    id: string; // client-chosen stream id, empty if the filter can't be changed
+    label: string; // names the client in metrics: its stream id, or a sequence number
+    owner: string; // who opened it; only they may change its filter
+    watchlist: WatchlistData; // only tickers in this watchlist are sent
+    filter: StreamFilter;
+    channel: UpdateChannel<PriceUpdate>;
 };
 const streamingClients = new Set<StreamClient>();
+let streamSequence = 0;
+
+function findStreamClient(id: string): StreamClient | undefined {
+    for (const client of streamingClients) {
+        if (client.id === id) return client;
+    }
+    return undefined;
+}
+
+// A streaming client gets a ticker's updates if its watchlist includes it and its filter matches
+function wants(client: StreamClient, ticker: string, exchange: string): boolean {
+    return client.watchlist.tickers.has(tickerKey(exchange, ticker)) && matchesFilter(client.filter, ticker, exchange);
+}
+
+// Send an update to every streaming client that wants it
+function broadcast(update: PriceUpdate) {
+    update.sequence = replayLog.append({ update, watchlist: null });
+    for (const client of streamingClients) {
+        if (wants(client, update.ticker, update.exchange)) {
+            client.channel.push(update);
+            if (update.price) metrics.ticksBroadcast.inc();
+        }
+    }
+}
+
+// Send an update to the clients streaming one watchlist, e.g. for a ticker being added to or
+// dropped from it; the caller checks membership
+function sendToWatchlist(watchlist: WatchlistData, update: PriceUpdate) {
+    update.sequence = replayLog.append({ update, watchlist });
+    for (const client of streamingClients) {
+        if (client.watchlist === watchlist && matchesFilter(client.filter, update.ticker, update.exchange)) {
+            client.channel.push(update);
+        }
+    }
+}
+
+function removedUpdate(ticker: string, exchange: string): PriceUpdate {
+    return new PriceUpdate({
+        ticker,
+        price: "",
+        timestamp: BigInt(Date.now()),
+        exchange,
+        removed: true
+    });
+}
+
+// Candle streaming clients, each following one interval
+type CandleClient = {
+    filter: StreamFilter;
+    interval: string;
+    channel: UpdateChannel<Candle>;
+};
+const candleClients = new Set<CandleClient>();
+
+function toCandleMessage(candle: CandleData): Candle {
+    return new Candle({
+        ticker: candle.symbol,
+        exchange: candle.exchange,
+        interval: candle.interval,
+        start: BigInt(candle.start),
+        open: candle.open,
+        high: candle.high,
+        low: candle.low,
+        close: candle.close,
+        tickCount: candle.tickCount,
+        closed: candle.closed
+    });
+}
+
+// Live candles for every active ticker, pushed to matching candle clients
+const candleAggregator = new CandleAggregator(
+    config.candles.intervals,
+    (candle: CandleData) => {
+        let message: Candle | null = null;
+        for (const client of candleClients) {
+            if (client.interval === candle.interval && matchesFilter(client.filter, candle.symbol, candle.exchange)) {
+                message ??= toCandleMessage(candle);
+                client.channel.push(message);
+            }
+        }
+    }
+);
+
+// Tell streaming clients about a ticker's feed status without a new price
+function broadcastStatus(tickerData: TickerData, status: TickerStatus) {
+    tickerData.status = status;
+    broadcast(new PriceUpdate({
+        ticker: tickerData.symbol,
+        price: "",
+        timestamp: BigInt(Date.now()),
+        exchange: tickerData.exchange,
+        status
+    }));
+}
+
+// Drop a ticker whose feed failed for good and tell clients why it disappeared
+async function autoRemoveTicker(tickerData: TickerData, reason: string) {
+    const { symbol: ticker, exchange } = tickerData;
+    const key = tickerKey(exchange, ticker);
+    if (activeTickers.get(key) !== tickerData) return;
+
+    console.error(`Auto-removing ${key}: ${reason}`);
+    metrics.subscriptionFailures.inc({ ticker, exchange });
+    broadcastStatus(tickerData, TickerStatus.FAILED);
+    broadcast(removedUpdate(ticker, exchange));
+    watchlists.removeEverywhere(key);
+    untrackTicker(tickerData);
+    saveState();
+
+    // release the page (or timer) the source may still hold for this ticker
+    await priceSource.unsubscribeFromTicker(ticker, exchange);
+}
+
+// Forget a ticker no watchlist includes any more, alert rules included (a no-update rule would
+// otherwise keep firing for the missing feed); the caller unsubscribes from the source and saves
+function untrackTicker(tickerData: TickerData) {
+    const key = tickerKey(tickerData.exchange, tickerData.symbol);
+    activeTickers.delete(key);
+    watchdog.unwatch(key);
+    candleAggregator.removeTicker(tickerData.symbol, tickerData.exchange);
+    const deletedAlerts = alertEngine.deleteForTicker(tickerData.symbol, tickerData.exchange);
+    if (deletedAlerts > 0) console.log(`Deleted ${deletedAlerts} alerts on ${key}`);
+}
+
+// Reloads feeds that go silent, publishes their health, and gives up after repeated failures
+const watchdog = new FeedWatchdog(
+    {
+        staleAfterMs: config.watchdog.staleSeconds * 1000,
+        maxRecoveries: config.watchdog.maxRecoveries
+    },
+    {
+        recover: async (key: string) => {
+            const tickerData = activeTickers.get(key);
+            if (tickerData) {
+                await priceSource.recoverTicker(tickerData.symbol, tickerData.exchange);
+            }
+        },
+        onStatus: (key: string, status: TickerStatus) => {
+            const tickerData = activeTickers.get(key);
+            if (tickerData) {
+                broadcastStatus(tickerData, status);
+            }
+        },
+        onFailed: (key: string, reason: string) => {
+            const tickerData = activeTickers.get(key);
+            if (tickerData) {
+                autoRemoveTicker(tickerData, reason).catch(err => console.error(`Failed to remove ${key}:`, err));
+            }
+        }
+    }
+);
+
+// Daily stats for the wire; unset until the source has reported any
+function toQuoteMessage(quote: QuoteData): Quote | undefined {
+    if (Object.keys(quote).length === 0) return undefined;
+    return new Quote({
+        change: quote.change ?? "",
+        changePercent: quote.changePercent ?? "",
+        volume: quote.volume ?? "",
+        dayHigh: quote.dayHigh ?? "",
+        dayLow: quote.dayLow ?? "",
+        bid: quote.bid ?? "",
+        ask: quote.ask ?? ""
+    });
+}
+
+// What a client starting to follow a ticker is sent first: its last price, or that it's on its
+// way back after a restart; null while there's nothing to show yet
+function snapshotUpdate(tickerData: TickerData): PriceUpdate | null {
+    if (tickerData.currentPrice !== null) {
+        return new PriceUpdate({
+            ticker: tickerData.symbol,
+            price: tickerData.currentPrice,
+            timestamp: BigInt(tickerData.lastUpdated?.getTime() || Date.now()),
+            exchange: tickerData.exchange,
+            status: tickerData.status,
+            quote: toQuoteMessage(tickerData.quote),
+            sequence: replayLog.latest
+        });
+    }
+    if (tickerData.status === TickerStatus.RESTORING) {
+        return new PriceUpdate({
+            ticker: tickerData.symbol,
+            price: "",
+            timestamp: BigInt(Date.now()),
+            exchange: tickerData.exchange,
+            status: tickerData.status,
+            sequence: replayLog.latest
+        });
+    }
+    return null;
+}
+
+// Snapshots of every ticker a streaming client wants
+function snapshotUpdates(client: StreamClient): PriceUpdate[] {
+    const updates: PriceUpdate[] = [];
+    for (const ticker of activeTickers.values()) {
+        if (!wants(client, ticker.symbol, ticker.exchange)) continue;
+        const update = snapshotUpdate(ticker);
+        if (update) updates.push(update);
+    }
+    return updates;
+}
+
+// Attach the price source feed for a tracked ticker; returns false if it failed
+async function subscribeTicker(tickerData: TickerData): Promise<boolean> {
+    const { symbol: ticker, exchange } = tickerData;
+    const key = tickerKey(exchange, ticker);
+    let failed = false;
+
+    await priceSource.subscribeToTicker(
+        ticker,
+        exchange,
+        // SUCCESS CALLBACK - only receives valid decimal strings
+        (price: string, quote?: QuoteData) => {
+            if (activeTickers.get(key) === tickerData) {
+                tickerData.currentPrice = price;
+                Object.assign(tickerData.quote, quote);
+                tickerData.lastUpdated = new Date();
+                console.log(`Live update for ${key}: $${price}`);
+                metrics.ticksReceived.inc({ ticker, exchange });
+
+                // Feed is alive; may flip a stale/recovering ticker back to live
+                watchdog.recordTick(key, tickerData.lastUpdated.getTime());
+
+                // Persist for GetPriceHistory, feed the candle aggregator and check alert rules
+                priceHistory.record(ticker, exchange, price, tickerData.lastUpdated.getTime());
+                candleAggregator.addTick(ticker, exchange, price, tickerData.lastUpdated.getTime());
+                alertEngine.recordPrice(ticker, exchange, price, tickerData.lastUpdated.getTime());
+
+                // Broadcast to streaming clients
+                broadcast(new PriceUpdate({
+                    ticker: ticker,
+                    price,
+                    timestamp: BigInt(tickerData.lastUpdated.getTime()),
+                    exchange: tickerData.exchange,
+                    status: tickerData.status,
+                    quote: toQuoteMessage(tickerData.quote)
+                }));
+            }
+        },
+        // ERROR CALLBACK - handles auto-removal
+        (failedSymbol: string, reason: string) => {
+            failed = true;
+            autoRemoveTicker(tickerData, reason).catch(err => console.error(`Failed to remove ${key}:`, err));
+        },
+        // QUOTE CALLBACK - daily stats changed without a new price
+        (quote: QuoteData) => {
+            if (activeTickers.get(key) !== tickerData) return;
+            Object.assign(tickerData.quote, quote);
+
+            // clients need a price alongside the stats, so hold them until the first tick
+            if (tickerData.currentPrice !== null) {
+                broadcast(new PriceUpdate({
+                    ticker,
+                    price: tickerData.currentPrice,
+                    timestamp: BigInt(Date.now()),
+                    exchange,
+                    status: tickerData.status,
+                    quote: toQuoteMessage(tickerData.quote)
+                }));
+            }
+        }
+    );
+
+    // ticker may have been removed while the subscription was being set up
+    if (activeTickers.get(key) !== tickerData) {
+        if (!failed) await priceSource.unsubscribeFromTicker(ticker, exchange);
+        return false;
+    }
+
+    if (!failed) {
+        tickerData.subscribed = true;
+        tickerData.status = TickerStatus.LIVE;
+        watchdog.watch(key);
+    }
+    return !failed;
+}
+
+// Bring back saved watchlists before their tickers so the feeds are reference-counted.
+// Tickers saved before watchlists existed go into the default watchlist of whoever added them.
+function restoreWatchlists(saved: SavedWatchlist[], tickers: SavedTicker[]) {
+    for (const watchlist of saved) {
+        watchlists.add(watchlist);
+    }
+
+    const savedKeys = new Set<string>();
+    for (const ticker of tickers) {
+        const key = tickerKey(ticker.exchange, ticker.symbol);
+        savedKeys.add(key);
+        if (watchlists.refCount(key) === 0) {
+            watchlists.addTicker(watchlists.defaultFor(ticker.addedBy ?? ANONYMOUS_OWNER), key);
+        }
+    }
+
+    // a watchlist entry without a saved ticker would never get a feed
+    for (const watchlist of watchlists.all()) {
+        for (const key of watchlist.tickers) {
+            if (!savedKeys.has(key)) watchlists.removeEverywhere(key);
+        }
+    }
+}
+
+// Re-add the tickers saved by the previous run, resubscribing one at a time in the background.
+// Tickers are registered synchronously so nothing saves over them before the first await.
+async function restoreTickers(tickers: SavedTicker[]) {
+    if (tickers.length === 0) return;
+
+    console.log(`Restoring ${tickers.length} saved tickers`);
+    const restoring: TickerData[] = [];
+    for (const saved of tickers) {
+        const key = tickerKey(saved.exchange, saved.symbol);
+        if (activeTickers.has(key)) continue;
+
+        const tickerData: TickerData = {
+            symbol: saved.symbol,
+            exchange: saved.exchange,
+            currentPrice: null,
+            lastUpdated: null,
+            subscribed: false,
+            status: TickerStatus.RESTORING,
+            addedAt: new Date(saved.addedAt),
+            quote: {},
+            addedBy: saved.addedBy ?? null
+        };
+        activeTickers.set(key, tickerData);
+        broadcastStatus(tickerData, TickerStatus.RESTORING);
+        restoring.push(tickerData);
+    }
+
+    let restored = 0;
+    for (const tickerData of restoring) {
+        // removed by a client before we got to it
+        if (activeTickers.get(tickerKey(tickerData.exchange, tickerData.symbol)) !== tickerData) continue;
+
+        if (await subscribeTicker(tickerData)) {
+            restored++;
+            broadcastStatus(tickerData, TickerStatus.LIVE);
+            console.log(`Restored ${tickerKey(tickerData.exchange, tickerData.symbol)} (${restored}/${restoring.length})`);
+        }
+    }
+    console.log(`Restore complete: ${restored}/${restoring.length} tickers live`);
+}
+
+// Alert streaming clients; recent notifications are replayed to new clients
+type AlertClient = {
+    channel: UpdateChannel<AlertNotification>;
+};
+const alertClients = new Set<AlertClient>();
+const recentAlerts: AlertNotification[] = [];
+const RECENT_ALERTS_LIMIT = 50;
+
+function toAlertRuleMessage(rule: AlertRuleData): AlertRule {
+    return new AlertRule({
+        id: rule.id,
+        ticker: rule.symbol,
+        exchange: rule.exchange,
+        type: rule.type,
+        threshold: rule.threshold,
+        windowSeconds: rule.windowSeconds,
+        createdAt: BigInt(rule.createdAt),
+        lastTriggeredAt: BigInt(rule.lastTriggeredAt),
+        createdBy: rule.createdBy ?? ""
+    });
+}
+
+// Rules are evaluated on every tick; triggers go to every alert client
+const alertEngine = new AlertEngine((trigger: AlertTrigger) => {
+    const notification = new AlertNotification({
+        alert: toAlertRuleMessage(trigger.rule),
+        price: trigger.price ?? "",
+        timestamp: BigInt(trigger.timestamp),
+        message: trigger.message
+    });
+
+    recentAlerts.push(notification);
+    if (recentAlerts.length > RECENT_ALERTS_LIMIT) recentAlerts.shift();
+
+    for (const client of alertClients) {
+        client.channel.push(notification);
+    }
+    saveState(); // keeps lastTriggeredAt
+});
+
+// Watchlists belong to the caller's API key, or to the browser session when auth is disabled
+function callerOwner(context: HandlerContext): string {
+    const principal = context.values.get(principalKey);
+    return principal ? principal.name : sessionOwner(context.requestHeader.get("x-session-id"));
+}
+
+// Who a price stream belongs to: the API key owner, or the browser session for callers without a
+// key (anonymous-role callers all share the "anonymous" principal, so it can't tell them apart)
+function streamOwner(context: HandlerContext): string {
+    const principal = context.values.get(principalKey);
+    return principal && !principal.anonymous
+        ? `key:${principal.name}`
+        : sessionOwner(context.requestHeader.get("x-session-id"));
+}
+
+// The watchlist a request names, or the caller's default one; other users' watchlists are admin-only
+function resolveWatchlist(context: HandlerContext, id: string): WatchlistData {
+    const owner = callerOwner(context);
+    if (!id) return watchlists.defaultFor(owner);
+
+    const watchlist = watchlists.get(id);
+    if (!watchlist) {
+        throw new ConnectError(`Watchlist ${id} does not exist`, Code.NotFound);
+    }
+    const principal = context.values.get(principalKey);
+    if (principal && principal.role !== "admin" && watchlist.owner !== owner) {
+        throw new ConnectError(`Watchlist ${id} belongs to ${watchlist.owner}`, Code.PermissionDenied);
+    }
+    return watchlist;
+}
+
+function toWatchlistMessage(watchlist: WatchlistData): Watchlist {
+    return new Watchlist({
+        id: watchlist.id,
+        name: watchlist.name,
+        owner: watchlist.owner,
+        tickers: Array.from(watchlist.tickers).sort(),
+        isDefault: watchlist.isDefault,
+        createdAt: BigInt(watchlist.createdAt)
+    });
+}
+
+// Add one ticker to a watchlist: join the running feed if another watchlist tracks it, otherwise
+// validate it and start one. Expected failures are reported in the response; limits throw.
+async function addToWatchlist(
+    watchlist: WatchlistData,
+    symbol: string,
+    exchangeName: string,
+    addedBy: string | null
+): Promise<AddTickerResponse> {
+    const { symbol: ticker, exchange } = normalizeTicker(symbol, exchangeName);
+
+    // checked before any limit or validation, so junk never costs a page load
+    const problem = symbolProblem(ticker);
+    if (problem) {
+        return new AddTickerResponse({ success: false, message: problem });
+    }
+
+    if (!EXCHANGES.includes(exchange)) {
+        return new AddTickerResponse({
+            success: false,
+            message: `Exchange ${exchange} is not supported (expected one of ${EXCHANGES.join(", ")})`
+        });
+    }
+
+    const key = tickerKey(exchange, ticker);
+    if (watchlist.tickers.has(key)) {
+        return new AddTickerResponse({
+            success: false,
+            message: `Ticker ${key} is already in watchlist ${watchlist.name}`
+        });
+    }
+
+    // Another watchlist already tracks it: share the running feed
+    const joinTracked = (tickerData: TickerData) => {
+        watchlists.addTicker(watchlist, key);
+        saveState();
+        const snapshot = snapshotUpdate(tickerData);
+        if (snapshot) sendToWatchlist(watchlist, snapshot);
+        console.log(`Added ${key} to watchlist ${watchlist.id} (${watchlists.refCount(key)} watchlists)`);
+        return new AddTickerResponse({
+            success: true,
+            message: `Added ${ticker} on ${exchange} to ${watchlist.name}`
+        });
+    };
+
+    const tracked = activeTickers.get(key);
+    if (tracked) return joinTracked(tracked);
+
+    // validate ticker before adding (unless validated recently); limits are checked again
+    // once a validation slot is free. Only definite answers are cached, not failed checks.
+    let isValid = validationCache.get(key);
+    if (isValid === undefined) {
+        checkCapacity(1);
+        isValid = await validations.run(() => {
+            checkCapacity(0);
+            return metrics.timeValidation(() => priceSource.validateTicker(ticker, exchange));
+        }).catch(err => {
+            if (err instanceof ConnectError) throw err;
+            const reason = String(err.message).split("\n")[0]; // Playwright appends call logs
+            throw new ConnectError(`Could not check ${ticker} on ${exchange} right now, try again: ${reason}`, Code.Unavailable);
+        });
+        validationCache.set(key, isValid);
+    }
+    if (!isValid) {
+        return new AddTickerResponse({
+            success: false,
+            message: `Ticker ${ticker} is invalid or not found on ${exchange}`
+        });
+    }
+
+    // someone may have added it while we were validating
+    const trackedMeanwhile = activeTickers.get(key);
+    if (trackedMeanwhile) return joinTracked(trackedMeanwhile);
+    checkCapacity(1);
+
+    // if valid, add ticker to storage
+    const tickerData: TickerData = {
+        symbol: ticker,
+        exchange,
+        currentPrice: null,
+        lastUpdated: null,
+        subscribed: false,
+        status: TickerStatus.UNSPECIFIED,
+        addedAt: new Date(),
+        quote: {},
+        addedBy
+    };
+    activeTickers.set(key, tickerData);
+    watchlists.addTicker(watchlist, key);
+
+    if (!(await subscribeTicker(tickerData))) {
+        return new AddTickerResponse({
+            success: false,
+            message: `Could not start live price monitoring for ${ticker} on ${exchange}`
+        });
+    }
+
+    saveState();
+    console.log(`Added ticker: ${key} to watchlist ${watchlist.id}. Active tickers: ${activeTickers.size}`);
+
+    return new AddTickerResponse({
+        success: true,
+        message: `Successfully added ${ticker} on ${exchange} to ${watchlist.name} with live price monitoring`
+    });
+}
+
+// Remove one ticker from a watchlist; the feed stops only when no other watchlist has it
+async function removeFromWatchlist(watchlist: WatchlistData, symbol: string, exchangeName: string): Promise<RemoveTickerResponse> {
+    const { symbol: ticker, exchange } = normalizeTicker(symbol, exchangeName);
+    const key = tickerKey(exchange, ticker);
+
+    if (!watchlist.tickers.has(key)) {
+        return new RemoveTickerResponse({
+            success: false,
+            message: `Ticker ${key} is not in watchlist ${watchlist.name}`
+        });
+    }
+
+    // Only this watchlist's clients lose the ticker; other watchlists keep their feed
+    const last = watchlists.removeTicker(watchlist, key);
+    sendToWatchlist(watchlist, removedUpdate(ticker, exchange));
+
+    const tickerData = activeTickers.get(key);
+    if (!last || !tickerData) {
+        saveState();
+        console.log(`Removed ${key} from watchlist ${watchlist.id} (${watchlists.refCount(key)} watchlists left)`);
+        return new RemoveTickerResponse({
+            success: true,
+            message: `Removed ${ticker} on ${exchange} from ${watchlist.name}`
+        });
+    }
+
+    // last watchlist let go: stop the feed and close the page
+    untrackTicker(tickerData);
+    saveState();
+    await priceSource.unsubscribeFromTicker(ticker, exchange);
+    console.log(`Removed ticker: ${key}. Active tickers: ${activeTickers.size}`);
+    return new RemoveTickerResponse({
+        success: true,
+        message: `Successfully removed ${ticker} from ${exchange}`
+    });
+}
+
+// Most tickers one AddTickers, RemoveTickers or ImportWatchlist call may carry
+const MAX_BATCH_TICKERS = 100;
+
+// Applies a per-ticker operation to a batch and reports each ticker's outcome; a ticker that hits
+// a limit or an error fails on its own. Tickers run as many at a time as validations may, so a big
+// batch waits its turn instead of overflowing the shared validation queue.
+async function runBatch(
+    tickers: TickerRef[],
+    apply: (ticker: string, exchange: string) => Promise<{ success: boolean; message: string }>
+): Promise<TickerResult[]> {
+    if (tickers.length > MAX_BATCH_TICKERS) {
+        throw new ConnectError(`At most ${MAX_BATCH_TICKERS} tickers per batch, got ${tickers.length}`, Code.InvalidArgument);
+    }
+
+    const batch = new ConcurrencyLimiter(config.limits.maxConcurrentValidations, Infinity, "batch tickers");
+    const seen = new Set<string>();
+    return Promise.all(tickers.map(({ ticker, exchange }) => {
+        const normalized = normalizeTicker(ticker, exchange);
+        const result = new TickerResult({ ticker: normalized.symbol, exchange: normalized.exchange });
+        const problem = symbolProblem(result.ticker);
+        if (problem) {
+            result.message = problem;
+            result.code = codeName(Code.InvalidArgument);
+            return result;
+        }
+        const key = tickerKey(result.exchange, result.ticker);
+        if (seen.has(key)) {
+            result.message = `Ticker ${key} is listed more than once`;
+            return result;
+        }
+        seen.add(key);
+
+        return batch.run(async () => {
+            try {
+                const response = await apply(result.ticker, result.exchange);
+                result.success = response.success;
+                result.message = response.message;
+            } catch (err) {
+                const connectErr = ConnectError.from(err);
+                result.message = connectErr.rawMessage;
+                result.code = codeName(connectErr.code);
+            }
+            return result;
+        });
+    }));
+}
+
+// Why an upper-cased symbol can't be a ticker, or null if it can
+function symbolProblem(ticker: string): string | null {
+    if (ticker === "") return "Ticker symbol is empty";
+    if (!SYMBOL_PATTERN.test(ticker)) return `"${ticker}" is not a ticker symbol`;
+    return null;
+}
+
+function fileFormat(format: WatchlistFormat): WatchlistFileFormat {
+    return format === WatchlistFormat.CSV ? "csv" : "json";
+}
+
+function summarize(results: TickerResult[]): string {
+    return `${results.filter(result => result.success).length} of ${results.length} succeeded`;
+}
 
 const routes = () => (router: any) => {
     router.service(CryptoStreamService, {
         async addTicker(req: AddTickerRequest, context: HandlerContext): Promise<AddTickerResponse> {
-            const ticker = req.ticker.toUpperCase();
+            const watchlist = resolveWatchlist(context, req.watchlistId);
+            return addToWatchlist(watchlist, req.ticker, req.exchange, context.values.get(principalKey)?.name ?? null);
+        },
 
-            if (activeTickers.has(ticker)) {
-                return new AddTickerResponse({
-                    success: false,
-                    message: `Ticker ${ticker} is already being tracked`
-                });
+        async removeTicker(req: RemoveTickerRequest, context: HandlerContext): Promise<RemoveTickerResponse> {
+            const watchlist = resolveWatchlist(context, req.watchlistId);
+            return removeFromWatchlist(watchlist, req.ticker, req.exchange);
+        },
+
+        async *streamPrices(req: StreamPricesRequest, context: HandlerContext) {
+            if (req.streamId && findStreamClient(req.streamId)) {
+                throw new ConnectError(`Stream id ${req.streamId} is already in use`, Code.AlreadyExists);
             }
 
-            // validate ticker before adding
-            const isValid = await scraper.validateTicker(ticker);
-            if (!isValid) {
-                return new AddTickerResponse({
+            const watchlist = resolveWatchlist(context, req.watchlistId);
+            const filter = createStreamFilter(req.tickers, req.exchange);
+            console.log(`New streaming client connected for watchlist ${watchlist.id}${req.streamId ? ` (${req.streamId})` : ''}`);
+
+            // Create client object with its own bounded update channel
+            const client: StreamClient = {
+                id: req.streamId,
+                label: req.streamId || `#${++streamSequence}`,
+                owner: streamOwner(context),
+                watchlist,
+                filter,
+                channel: createPriceChannel()
+            };
+
+            // Wake the reader and end the stream as soon as the client goes away
+            const onAbort = () => client.channel.close();
+            context.signal.addEventListener("abort", onAbort);
+
+            // Register this client to receive broadcasts (updates buffer while the snapshot is sent)
+            streamingClients.add(client);
+
+            // Taken before the first yield, so nothing sent after registering is missed or repeated
+            const missed = req.resumeFrom > 0n ? replayLog.since(req.resumeFrom) : null;
+            const initialUpdates = missed
+                ? missed
+                    .filter(({ update, watchlist }) => watchlist
+                        ? watchlist === client.watchlist && matchesFilter(client.filter, update.ticker, update.exchange)
+                        : wants(client, update.ticker, update.exchange))
+                    .map(({ update }) => update)
+                : snapshotUpdates(client);
+            if (req.resumeFrom > 0n && !missed) {
+                // Too far behind (or from before a restart): start over from a full snapshot
+                initialUpdates.unshift(new PriceUpdate({
+                    price: "",
+                    timestamp: BigInt(Date.now()),
+                    reset: true,
+                    sequence: replayLog.latest
+                }));
+            }
+            if (missed) console.log(`Resumed stream from ${req.resumeFrom}: replaying ${initialUpdates.length} updates`);
+
+            try {
+                // Send initial state - the missed updates, or current prices (or restoring status) of the watchlist's tickers
+                for (const update of initialUpdates) {
+                    yield update;
+                }
+
+                // Stream updates as they come in
+                for await (const update of client.channel) {
+                    yield update;
+                }
+            } finally {
+                // Cleanup when client disconnects
+                context.signal.removeEventListener("abort", onAbort);
+                streamingClients.delete(client);
+                client.channel.close();
+                if (client.channel.conflated > 0) {
+                    console.log(`Conflated ${client.channel.conflated} updates for slow client`);
+                }
+                console.log('Streaming client disconnected');
+            }
+        },
+
+        async updateStreamFilter(req: UpdateStreamFilterRequest, context: HandlerContext): Promise<UpdateStreamFilterResponse> {
+            const client = req.streamId ? findStreamClient(req.streamId) : undefined;
+            if (!client) {
+                return new UpdateStreamFilterResponse({
                     success: false,
-                    message: `Ticker ${ticker} is invalid or not found on TradingView`
+                    message: `No open stream with id ${req.streamId}`
                 });
             }
+            if (client.owner !== streamOwner(context)) {
+                throw new ConnectError(`Stream ${req.streamId} was opened by another caller`, Code.PermissionDenied);
+            }
 
-            // if valid, add ticker to storage
-            activeTickers.set(ticker, {
-                symbol: ticker,
-                currentPrice: null,
-                lastUpdated: null
+            const previous = client.filter;
+            client.filter = createStreamFilter(req.tickers, req.exchange);
+
+            // Drop buffered updates the client no longer wants (removals from its watchlist stay)
+            client.channel.retain(update => update.removed || wants(client, update.ticker, update.exchange));
+
+            // Newly included tickers get their current price right away instead of waiting for the next tick
+            for (const ticker of activeTickers.values()) {
+                if (
+                    ticker.currentPrice !== null &&
+                    !matchesFilter(previous, ticker.symbol, ticker.exchange) &&
+                    wants(client, ticker.symbol, ticker.exchange)
+                ) {
+                    client.channel.push(snapshotUpdate(ticker)!);
+                }
+            }
+
+            const tickers = client.filter.tickers.size > 0 ? Array.from(client.filter.tickers).join(", ") : "all tickers";
+            console.log(`Updated filter for stream ${client.id}: ${tickers}`);
+            return new UpdateStreamFilterResponse({
+                success: true,
+                message: `Stream ${client.id} now receives ${tickers}`
             });
+        },
+
+        async getActiveTickers(req: GetActiveTickersRequest, context: HandlerContext): Promise<GetActiveTickersResponse> {
+            const watchlist = resolveWatchlist(context, req.watchlistId);
+            const tickers = Array.from(activeTickers.values())
+                .filter(ticker => watchlist.tickers.has(tickerKey(ticker.exchange, ticker.symbol)))
+                .sort((a, b) => a.symbol.localeCompare(b.symbol) || a.exchange.localeCompare(b.exchange))
+                .map(ticker => new TickerInfo({
+                    symbol: ticker.symbol,
+                    currentPrice: ticker.currentPrice ?? "",
+                    lastUpdated: ticker.lastUpdated?.toISOString() ?? "",
+                    exchange: ticker.exchange,
+                    subscribed: ticker.subscribed,
+                    status: ticker.status,
+                    addedAt: ticker.addedAt.toISOString(),
+                    quote: toQuoteMessage(ticker.quote),
+                    addedBy: ticker.addedBy ?? "",
+                    watchlistCount: watchlists.refCount(tickerKey(ticker.exchange, ticker.symbol))
+                }));
+
+            return new GetActiveTickersResponse({ tickers });
+        },
+
+        async getPriceHistory(req: GetPriceHistoryRequest, context: HandlerContext): Promise<GetPriceHistoryResponse> {
+            const { symbol: ticker, exchange } = normalizeTicker(req.ticker, req.exchange);
+
+            if (!ticker) {
+                throw new ConnectError("Ticker is required", Code.InvalidArgument);
+            }
+            if (req.from && req.to && req.from > req.to) {
+                throw new ConnectError("from must not be after to", Code.InvalidArgument);
+            }
+
+            const points = await priceHistory.query(
+                ticker,
+                exchange,
+                Number(req.from),
+                Number(req.to),
+                req.limit || DEFAULT_HISTORY_LIMIT
+            );
 
-            await scraper.subscribeToTicker(
+            return new GetPriceHistoryResponse({
                 ticker,
-                // SUCCESS CALLBACK - only receives valid numbers
-                (price: number) => {
-                    const tickerData = activeTickers.get(ticker);
-                    if (tickerData) {
-                        tickerData.currentPrice = price;
-                        tickerData.lastUpdated = new Date();
-                        console.log(`Live update for ${ticker}: $${price.toFixed(2)}`);
-
-                        // Broadcast to streaming clients
-                        const update = new PriceUpdate({
-                            ticker: ticker,
-                            price: price.toFixed(2),
-                            timestamp: BigInt(Date.now()),
-                            exchange: "BINANCE" // may expand beyond Binance in the future
-                        });
-
-                        for (const client of streamingClients) {
-                            client.send(update);
+                exchange,
+                points: points.map(point => new PricePoint({
+                    price: point.price,
+                    timestamp: BigInt(point.timestamp)
+                }))
+            });
+        },
+
+        async *streamCandles(req: StreamCandlesRequest, context: HandlerContext) {
+            const interval = req.interval.trim();
+            if (!candleAggregator.supportedIntervals.includes(interval)) {
+                throw new ConnectError(
+                    `Unsupported candle interval "${interval}" (expected one of ${candleAggregator.supportedIntervals.join(", ")})`,
+                    Code.InvalidArgument
+                );
+            }
+
+            // Closed candles are never dropped; in-progress updates of the same bar conflate
+            const client: CandleClient = {
+                filter: createStreamFilter(req.tickers, req.exchange),
+                interval,
+                channel: new UpdateChannel<Candle>({
+                    capacity: STREAM_BUFFER_SIZE,
+                    key: candle => `${tickerKey(candle.exchange, candle.ticker)}:${candle.start}`,
+                    durable: candle => candle.closed
+                })
+            };
+            console.log(`New candle client connected (${interval})`);
+
+            const onAbort = () => client.channel.close();
+            context.signal.addEventListener("abort", onAbort);
+            candleClients.add(client);
+
+            try {
+                // Send initial state - in-progress candles of matching tickers
+                for (const ticker of activeTickers.values()) {
+                    if (!matchesFilter(client.filter, ticker.symbol, ticker.exchange)) continue;
+                    for (const candle of candleAggregator.currentCandles(ticker.symbol, ticker.exchange)) {
+                        if (candle.interval === interval) {
+                            yield toCandleMessage(candle);
                         }
                     }
-                },
-                // ERROR CALLBACK - handles auto-removal
-                (failedSymbol: string, reason: string) => {
-                    console.error(`Auto-removing ${failedSymbol}: ${reason}`);
-                    activeTickers.delete(failedSymbol);
                 }
-            );
 
-            console.log(`Added ticker: ${ticker}. Active tickers: ${activeTickers.size}`);
+                for await (const candle of client.channel) {
+                    yield candle;
+                }
+            } finally {
+                context.signal.removeEventListener("abort", onAbort);
+                candleClients.delete(client);
+                client.channel.close();
+                console.log('Candle client disconnected');
+            }
+        },
+
+        async getCandles(req: GetCandlesRequest, context: HandlerContext): Promise<GetCandlesResponse> {
+            const { symbol: ticker, exchange } = normalizeTicker(req.ticker, req.exchange);
+            const interval = req.interval.trim();
+
+            if (!ticker) {
+                throw new ConnectError("Ticker is required", Code.InvalidArgument);
+            }
+            if (parseInterval(interval) === null) {
+                throw new ConnectError(`Invalid candle interval "${interval}" (expected e.g. 1s, 1m, 5m, 1h)`, Code.InvalidArgument);
+            }
+
+            // Built from recorded ticks so backfill survives restarts
+            const points = await priceHistory.query(ticker, exchange, Number(req.from), Number(req.to), 0);
+            const candles = buildCandles(ticker, exchange, interval, points)
+                .slice(-(req.limit || DEFAULT_CANDLE_LIMIT));
 
-            return new AddTickerResponse({
+            return new GetCandlesResponse({ candles: candles.map(toCandleMessage) });
+        },
+
+        async createAlert(req: CreateAlertRequest, context: HandlerContext): Promise<CreateAlertResponse> {
+            const { symbol: ticker, exchange } = normalizeTicker(req.ticker, req.exchange);
+            const key = tickerKey(exchange, ticker);
+
+            if (!activeTickers.has(key)) {
+                return new CreateAlertResponse({
+                    success: false,
+                    message: `Ticker ${key} is not being tracked`
+                });
+            }
+
+            const error = alertEngine.validate(req.type, req.threshold, req.windowSeconds);
+            if (error) {
+                return new CreateAlertResponse({ success: false, message: error });
+            }
+
+            const principal = context.values.get(principalKey);
+            const rule = alertEngine.create(ticker, exchange, req.type, req.threshold, req.windowSeconds, principal?.name);
+            saveState();
+            console.log(`Created alert ${rule.id} for ${key}`);
+
+            return new CreateAlertResponse({
                 success: true,
-                message: `Successfully added ${ticker} with live price monitoring`
+                message: `Created alert for ${key}`,
+                alert: toAlertRuleMessage(rule)
             });
         },
 
-        async removeTicker(req: RemoveTickerRequest, context: HandlerContext): Promise<RemoveTickerResponse> {
-            const ticker = req.ticker.toUpperCase();
+        async listAlerts(req: ListAlertsRequest, context: HandlerContext): Promise<ListAlertsResponse> {
+            const filter = createStreamFilter(req.ticker ? [req.ticker] : [], req.exchange);
+            const alerts = alertEngine.list()
+                .filter(rule => matchesFilter(filter, rule.symbol, rule.exchange))
+                .map(toAlertRuleMessage);
+
+            return new ListAlertsResponse({ alerts });
+        },
 
-            if (!activeTickers.has(ticker)) {
-                return new RemoveTickerResponse({
+        async deleteAlert(req: DeleteAlertRequest, context: HandlerContext): Promise<DeleteAlertResponse> {
+            const rule = alertEngine.get(req.id);
+            if (!rule) {
+                return new DeleteAlertResponse({
                     success: false,
-                    message: `Ticker ${ticker} is not being tracked`
+                    message: `Alert ${req.id} does not exist`
                 });
             }
+            if (!canModify(context.values.get(principalKey), rule.createdBy ?? null)) {
+                throw new ConnectError(`Alert ${req.id} was created by ${rule.createdBy ?? "another user"}`, Code.PermissionDenied);
+            }
+
+            alertEngine.delete(req.id);
+
+            saveState();
+            console.log(`Deleted alert ${req.id}`);
+            return new DeleteAlertResponse({
+                success: true,
+                message: "Alert deleted"
+            });
+        },
+
+        async *streamAlerts(req: StreamAlertsRequest, context: HandlerContext) {
+            const client: AlertClient = {
+                channel: new UpdateChannel<AlertNotification>({
+                    capacity: STREAM_BUFFER_SIZE,
+                    key: notification => notification.alert?.id ?? "",
+                    durable: () => false
+                })
+            };
+            console.log('New alert client connected');
+
+            const onAbort = () => client.channel.close();
+            context.signal.addEventListener("abort", onAbort);
+            alertClients.add(client);
+
+            try {
+                // Send recently triggered alerts first so a fresh page has context
+                for (const notification of [...recentAlerts]) {
+                    yield notification;
+                }
+
+                for await (const notification of client.channel) {
+                    yield notification;
+                }
+            } finally {
+                context.signal.removeEventListener("abort", onAbort);
+                alertClients.delete(client);
+                client.channel.close();
+                console.log('Alert client disconnected');
+            }
+        },
+
+        async createWatchlist(req: CreateWatchlistRequest, context: HandlerContext): Promise<CreateWatchlistResponse> {
+            const owner = callerOwner(context);
+            watchlists.defaultFor(owner); // the default comes first, so a new owner's first list isn't it
+
+            const error = watchlists.validateName(owner, req.name);
+            if (error) {
+                return new CreateWatchlistResponse({ success: false, message: error });
+            }
 
-            // Broadcast removal to all streaming clients before unsubscribing
-            const removalUpdate = new PriceUpdate({
-                ticker: ticker,
-                price: "",
-                timestamp: BigInt(Date.now()),
-                exchange: "BINANCE",
-                removed: true  
+            const watchlist = watchlists.create(owner, req.name);
+            saveState();
+            console.log(`Created watchlist ${watchlist.id} (${watchlist.name}) for ${owner}`);
+
+            return new CreateWatchlistResponse({
+                success: true,
+                message: `Created watchlist ${watchlist.name}`,
+                watchlist: toWatchlistMessage(watchlist)
             });
+        },
 
+        async listWatchlists(req: ListWatchlistsRequest, context: HandlerContext): Promise<ListWatchlistsResponse> {
+            const owner = callerOwner(context);
+            watchlists.defaultFor(owner);
+            return new ListWatchlistsResponse({
+                watchlists: watchlists.list(owner).map(toWatchlistMessage)
+            });
+        },
+
+        async deleteWatchlist(req: DeleteWatchlistRequest, context: HandlerContext): Promise<DeleteWatchlistResponse> {
+            const watchlist = watchlists.get(req.id);
+            if (!watchlist) {
+                return new DeleteWatchlistResponse({
+                    success: false,
+                    message: `Watchlist ${req.id} does not exist`
+                });
+            }
+            resolveWatchlist(context, req.id); // ownership check
+            if (watchlist.isDefault) {
+                return new DeleteWatchlistResponse({
+                    success: false,
+                    message: "The default watchlist can't be deleted"
+                });
+            }
+
+            // End the streams following it; they have nothing left to show
             for (const client of streamingClients) {
-                client.send(removalUpdate);
+                if (client.watchlist === watchlist) client.channel.close();
             }
 
-            // unsibscribe from streaming
-            await scraper.unsubscribeFromTicker(ticker);
+            const released = watchlists.delete(watchlist.id)
+                .map(key => activeTickers.get(key))
+                .filter((tickerData): tickerData is TickerData => tickerData !== undefined);
+            for (const tickerData of released) {
+                untrackTicker(tickerData);
+            }
+            saveState();
+            for (const tickerData of released) {
+                await priceSource.unsubscribeFromTicker(tickerData.symbol, tickerData.exchange);
+            }
 
-            // remove from storage
-            activeTickers.delete(ticker);
-            console.log(`Removed ticker: ${ticker}. Active tickers: ${activeTickers.size}`);
-            return new RemoveTickerResponse({
+            console.log(`Deleted watchlist ${watchlist.id}; stopped ${released.length} feeds no other watchlist uses`);
+            return new DeleteWatchlistResponse({
                 success: true,
-                message: `Successfully removed ${ticker}`
+                message: `Deleted watchlist ${watchlist.name}`
             });
         },
 
-        async *streamPrices(req: StreamPricesRequest, context: HandlerContext) {
-            console.log('New streaming client connected');
+        async addTickers(req: AddTickersRequest, context: HandlerContext): Promise<AddTickersResponse> {
+            const watchlist = resolveWatchlist(context, req.watchlistId);
+            const addedBy = context.values.get(principalKey)?.name ?? null;
+            const results = await runBatch(req.tickers, (ticker, exchange) =>
+                addToWatchlist(watchlist, ticker, exchange, addedBy)
+            );
+            console.log(`Batch add to watchlist ${watchlist.id}: ${summarize(results)}`);
+            return new AddTickersResponse({ results });
+        },
 
-            // Create a queue to hold updates for this specific client
-            const updateQueue: PriceUpdate[] = [];
-            let isActive = true;
+        async removeTickers(req: RemoveTickersRequest, context: HandlerContext): Promise<RemoveTickersResponse> {
+            const watchlist = resolveWatchlist(context, req.watchlistId);
+            const results = await runBatch(req.tickers, (ticker, exchange) =>
+                removeFromWatchlist(watchlist, ticker, exchange)
+            );
+            console.log(`Batch remove from watchlist ${watchlist.id}: ${summarize(results)}`);
+            return new RemoveTickersResponse({ results });
+        },
 
-            // Create client object that can receive updates
-            const client: StreamClient = {
-                send: (update: PriceUpdate) => {
-                    if (isActive) {
-                        updateQueue.push(update);
-                    }
-                },
-                close: () => {
-                    isActive = false;
-                }
-            };
+        async exportWatchlist(req: ExportWatchlistRequest, context: HandlerContext): Promise<ExportWatchlistResponse> {
+            const watchlist = resolveWatchlist(context, req.watchlistId);
+            const format = fileFormat(req.format);
+            const tickers = Array.from(watchlist.tickers).sort().map(key => {
+                const [exchange, symbol] = key.split(":");
+                return { symbol, exchange };
+            });
+            return new ExportWatchlistResponse({
+                content: formatWatchlistFile({ name: watchlist.name, tickers }, format),
+                contentType: format === "csv" ? "text/csv" : "application/json",
+                filename: watchlistFileName(watchlist.name, format)
+            });
+        },
 
-            // Register this client to receive broadcasts
-            streamingClients.add(client);
+        async importWatchlist(req: ImportWatchlistRequest, context: HandlerContext): Promise<ImportWatchlistResponse> {
+            const file = parseWatchlistFile(req.content, fileFormat(req.format));
+            if (file.tickers.length > MAX_BATCH_TICKERS) {
+                throw new ConnectError(`At most ${MAX_BATCH_TICKERS} tickers per import, the file has ${file.tickers.length}`, Code.InvalidArgument);
+            }
 
-            // Send initial state - all current prices
-            const currentTickers = Array.from(activeTickers.values());
-            for (const ticker of currentTickers) {
-                if (ticker.currentPrice !== null && isActive) {
-                    const initialUpdate = new PriceUpdate({
-                        ticker: ticker.symbol,
-                        price: ticker.currentPrice.toFixed(2),
-                        timestamp: BigInt(ticker.lastUpdated?.getTime() || Date.now()),
-                        exchange: "BINANCE"
-                    });
-                    yield initialUpdate;
+            let watchlist: WatchlistData;
+            if (req.watchlistId) {
+                watchlist = resolveWatchlist(context, req.watchlistId);
+            } else {
+                const owner = callerOwner(context);
+                watchlists.defaultFor(owner);
+                const name = req.name.trim() || file.name;
+                if (!name) {
+                    throw new ConnectError("A name for the new watchlist is required (CSV files don't carry one)", Code.InvalidArgument);
+                }
+                const error = watchlists.validateName(owner, name);
+                if (error) {
+                    throw new ConnectError(error, Code.InvalidArgument);
                 }
+                watchlist = watchlists.create(owner, name);
+                saveState();
+                console.log(`Created watchlist ${watchlist.id} (${watchlist.name}) for ${owner} from an import`);
             }
 
-            // Stream updates as they come in
-            try {
-                while (isActive && context.signal && !context.signal.aborted) {
-                    // Wait for updates in the queue
-                    while (updateQueue.length > 0 && isActive) {
-                        const update = updateQueue.shift();
-                        if (update) {
-                            yield update;
-                        }
-                    }
+            const addedBy = context.values.get(principalKey)?.name ?? null;
+            const results = await runBatch(
+                file.tickers.map(ticker => new TickerRef({ ticker: ticker.symbol, exchange: ticker.exchange })),
+                (ticker, exchange) => addToWatchlist(watchlist, ticker, exchange, addedBy)
+            );
+            console.log(`Imported into watchlist ${watchlist.id}: ${summarize(results)}`);
+            return new ImportWatchlistResponse({ watchlist: toWatchlistMessage(watchlist), results });
+        },
 
-                    // Small delay to prevent busy waiting
-                    await new Promise(resolve => setTimeout(resolve, 100));
-                }
-            } finally {
-                // Cleanup when client disconnects
-                streamingClients.delete(client);
-                client.close();
-                console.log('Streaming client disconnected');
+        async searchSymbols(req: SearchSymbolsRequest): Promise<SearchSymbolsResponse> {
+            const exchange = req.exchange.toUpperCase();
+            if (exchange && !EXCHANGES.includes(exchange)) {
+                throw new ConnectError(
+                    `Exchange ${exchange} is not supported (expected one of ${EXCHANGES.join(", ")})`,
+                    Code.InvalidArgument
+                );
             }
+            const limit = Math.min(req.limit > 0 ? req.limit : DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+            return new SearchSymbolsResponse({
+                symbols: symbolCatalog.search(req.query, exchange, limit).map(symbol => new SymbolInfo(symbol)),
+                catalogUpdatedAt: BigInt(symbolCatalog.updatedAt)
+            });
         }
     });
 };
 
-// Shutdown: close server browser when servers stops
-process.on('SIGINT', async () => {
-    console.log('\nShutting down...');
+// Graceful shutdown on SIGTERM (orchestrators) and SIGINT (Ctrl+C). New RPCs are refused, open
+// streams get a final shutdown update and end once their queues are delivered, state is saved,
+// then the browser and the HTTP server are closed. A second signal exits immediately.
+let shuttingDown = false;
+
+const shutdownInterceptor: Interceptor = next => async req => {
+    if (shuttingDown) {
+        throw new ConnectError("Server is shutting down", Code.Unavailable);
+    }
+    return next(req);
+};
+
+// Resolves true if the promise settled within ms, false if it had to be abandoned
+async function withTimeout(promise: Promise<unknown>, ms: number, what: string): Promise<boolean> {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(false), ms);
+    });
+    const settled = promise.then(
+        () => true,
+        err => {
+            console.error(`Failed to ${what}:`, err);
+            return true;
+        }
+    );
+    const done = await Promise.race([settled, timedOut]);
+    clearTimeout(timer);
+    if (!done) console.warn(`Gave up waiting to ${what} after ${ms}ms`);
+    return done;
+}
+
+function openStreams(): number {
+    return streamingClients.size + candleClients.size + alertClients.size;
+}
+
+// Stream handlers leave their client sets when the stream has been fully written
+async function streamsEnded(): Promise<void> {
+    while (openStreams() > 0) {
+        await new Promise(resolve => setTimeout(resolve, 50));
+    }
+}
+
+async function shutdown(signal: string) {
+    if (shuttingDown) {
+        console.log(`${signal} received again, exiting now`);
+        process.exit(1);
+    }
+    shuttingDown = true;
+    console.log(`\n${signal} received, shutting down...`);
+
+    const drainMs = config.shutdown.drainSeconds * 1000;
+    const closeMs = config.shutdown.closeSeconds * 1000;
+    const deadline = setTimeout(() => {
+        console.error("Shutdown did not finish in time, exiting");
+        process.exit(1);
+    }, drainMs + 2 * closeMs);
+    deadline.unref();
+
+    // tell every price stream why it is ending, then end all streams after their queued updates
+    const notice = new PriceUpdate({ price: "", timestamp: BigInt(Date.now()), shutdown: true, sequence: replayLog.latest });
+    console.log(`Draining ${openStreams()} open streams`);
+    for (const client of streamingClients) client.channel.end(notice);
+    for (const client of candleClients) client.channel.end();
+    for (const client of alertClients) client.channel.end();
+    if (!(await withTimeout(streamsEnded(), drainMs, "drain streams"))) {
+        for (const client of [...streamingClients, ...candleClients, ...alertClients]) client.channel.close();
+    }
+    webSockets.close();
+
+    // stop background work and persist state and history
+    watchdog.close();
+    candleAggregator.close();
+    alertEngine.close();
+    apiKeys.close();
+    saveState();
+    await withTimeout(stateStore.flush(), closeMs, "save state");
+    await withTimeout(priceHistory.close(), closeMs, "flush price history");
+
+    // close pages and the browser (or simulator timers)
+    await withTimeout(priceSource.close(), closeMs, "close the price source");
 
-    // close scraper browser
-    await scraper.close();
+    // stop listening; anything still connected is idle by now
+    const closed = new Promise<void>(resolve => server.close(() => resolve()));
+    server.closeIdleConnections();
+    if (!(await withTimeout(closed, 1000, "close the HTTP server"))) {
+        server.closeAllConnections();
+    }
 
     console.log('Cleanup complete! Goodbye');
     process.exit(0);
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+// Role needed for each RPC when auth is enabled (anything not listed needs admin)
+const METHOD_ROLES: MethodRoles = {
+    StreamPrices: "viewer",
+    UpdateStreamFilter: "viewer",
+    GetActiveTickers: "viewer",
+    GetPriceHistory: "viewer",
+    StreamCandles: "viewer",
+    GetCandles: "viewer",
+    ListAlerts: "viewer",
+    StreamAlerts: "viewer",
+    AddTicker: "editor",
+    RemoveTicker: "editor",
+    CreateAlert: "editor",
+    DeleteAlert: "editor",
+    ListWatchlists: "viewer",
+    CreateWatchlist: "editor",
+    DeleteWatchlist: "editor",
+    SearchSymbols: "viewer",
+    AddTickers: "editor",
+    RemoveTickers: "editor",
+    ExportWatchlist: "viewer",
+    ImportWatchlist: "editor"
+};
+
+// RPCs that change state, rate limited per caller
+const RATE_LIMITED_METHODS = [
+    "AddTicker",
+    "RemoveTicker",
+    "AddTickers",
+    "RemoveTickers",
+    "CreateAlert",
+    "DeleteAlert",
+    "CreateWatchlist",
+    "DeleteWatchlist",
+    "ImportWatchlist"
+];
+
+const apiKeys = new ApiKeyStore(config.auth.keysFile);
+
+// Served on /metrics for Prometheus
+const metrics = new ServerMetrics({
+    streamClients: () => ({
+        prices: streamingClients.size,
+        candles: candleClients.size,
+        alerts: alertClients.size
+    }),
+    queueDepths: () => Array.from(streamingClients, client => ({ client: client.label, depth: client.channel.depth })),
+    openPages: () => priceSource.openPages(),
+    lastTicks: () => Array.from(activeTickers.values())
+        .filter(ticker => ticker.lastUpdated !== null)
+        .map(ticker => ({ symbol: ticker.symbol, exchange: ticker.exchange, timestamp: ticker.lastUpdated!.getTime() }))
 });
 
+const interceptors: Interceptor[] = [shutdownInterceptor];
+if (config.auth.enabled) {
+    interceptors.push(createAuthInterceptor(apiKeys, METHOD_ROLES, (config.auth.anonymousRole || null) as Role | null));
+}
+if (config.limits.ratePerMinute > 0) {
+    const limit = { perMinute: config.limits.ratePerMinute, burst: config.limits.rateBurst };
+    interceptors.push(createRateLimitInterceptor(new RateLimiter(limit), RATE_LIMITED_METHODS));
+}
+
 // Create the connectRPC handler
 const handler = connectNodeAdapter({
-    routes: routes()
+    routes: routes(),
+    interceptors,
+    contextValues: req => createContextValues().set(clientAddressKey, req.socket.remoteAddress ?? "unknown")
 });
 
+// REST/JSON and SSE under /api and the /ws WebSocket feed, served by the same handlers through
+// an in-process transport
+const localTransport = createRouterTransport(routes(), { router: { interceptors } });
+const gateway = createGateway(localTransport);
+
 // Create server with manual CORS handling
 const server = createServer((req, res) => {
-    // Add CORS headers
-    res.setHeader('Access-Control-Allow-Origin', 'http://localhost:3000');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Connect-Protocol-Version, Connect-Timeout-Ms');
+    // Add CORS headers for configured origins
+    const origin = req.headers.origin;
+    if (config.server.corsOrigins.includes("*")) {
+        res.setHeader('Access-Control-Allow-Origin', '*');
+    } else if (origin && config.server.corsOrigins.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Vary', 'Origin');
+    }
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Connect-Protocol-Version, Connect-Timeout-Ms, Authorization, X-API-Key, X-Session-Id');
 
     // Handle preflight requests
     if (req.method === 'OPTIONS') {
@@ -220,15 +1531,108 @@ const server = createServer((req, res) => {
         return;
     }
 
-    // Pass to ConnectRPC handler
+    const path = req.url?.split('?')[0];
+
+    // Liveness: the process is up and serving HTTP
+    if (req.method === 'GET' && path === '/healthz') {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', uptimeSeconds: Math.round(process.uptime()) }));
+        return;
+    }
+
+    // Readiness: the price source works and enough tickers have fresh prices
+    if (req.method === 'GET' && path === '/readyz') {
+        const report = checkReadiness(
+            [
+                { name: "server", ok: !shuttingDown, detail: shuttingDown ? "shutting down" : "accepting requests" },
+                ...priceSource.health()
+            ],
+            Array.from(activeTickers.values(), ticker => ({
+                key: tickerKey(ticker.exchange, ticker.symbol),
+                lastUpdated: ticker.lastUpdated?.getTime() ?? null
+            })),
+            {
+                freshnessMs: config.health.freshnessSeconds * 1000,
+                minLiveFraction: config.health.minLiveFraction
+            }
+        );
+        res.writeHead(report.ready ? 200 : 503, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(report, null, 2));
+        return;
+    }
+
+    if (req.method === 'GET' && path === '/metrics') {
+        metrics.render().then(
+            body => {
+                res.writeHead(200, { 'Content-Type': metrics.contentType() });
+                res.end(body);
+            },
+            err => {
+                console.error('Failed to render metrics:', err);
+                res.writeHead(500);
+                res.end();
+            }
+        );
+        return;
+    }
+
+    // Plain HTTP/JSON gateway, otherwise ConnectRPC
+    if (gateway(req, res)) return;
     handler(req, res);
 });
 
-server.listen(8080, () => {
-    console.log("ConnectRPC server running on http://localhost:8080");
-    console.log("Available RPC endpoints:");
-    console.log("- AddTicker");
-    console.log("- RemoveTicker");
-    console.log("- GetActiveTickers");
-    console.log("- StreamPrices (real-time price updates)");
+const webSockets = new PriceWebSocketServer(server, localTransport, {
+    path: "/ws",
+    heartbeatMs: config.websocket.heartbeatSeconds * 1000
+});
+
+// Load API keys (when auth is on) and saved state before accepting requests so no request saves over it
+async function loadApiKeys() {
+    if (!config.auth.enabled) {
+        console.warn("Auth is disabled: every caller can add and remove tickers");
+        return;
+    }
+    try {
+        await apiKeys.load();
+    } catch (err: any) {
+        console.error(err.message);
+        process.exit(1);
+    }
+    apiKeys.watch();
+}
+
+loadApiKeys().then(() => symbolCatalog.load()).then(() => stateStore.load()).then(state => {
+    // rules on a ticker that isn't saved any more (e.g. from before rules were deleted with their ticker) are dropped
+    const savedTickers = new Set(state.tickers.map(ticker => tickerKey(ticker.exchange, ticker.symbol)));
+    for (const alert of state.alerts) {
+        if (!savedTickers.has(tickerKey(alert.exchange, alert.symbol))) continue;
+        alertEngine.add({ ...alert, type: alert.type as AlertType });
+    }
+
+    // launch the browser up front so /readyz reflects it; a failure is retried on the first ticker
+    priceSource.initialize().catch(err => console.error("Price source failed to start:", err.message));
+
+    // resubscribe saved tickers in the background; clients see their progress on the stream
+    restoreWatchlists(state.watchlists, state.tickers);
+    restoreTickers(state.tickers).catch(err => console.error("Failed to restore saved tickers:", err));
+
+    // refresh the symbol catalog in the background if it is due, then every refreshHours
+    if (config.symbols.refreshHours > 0) {
+        const refreshMs = config.symbols.refreshHours * 60 * 60 * 1000;
+        if (Date.now() - symbolCatalog.updatedAt >= refreshMs) refreshSymbols();
+        setInterval(refreshSymbols, refreshMs).unref();
+    }
+
+    server.listen(config.server.port, () => {
+        console.log(`ConnectRPC server running on http://localhost:${config.server.port}`);
+        console.log("Available RPC endpoints:");
+        console.log("- AddTicker");
+        console.log("- RemoveTicker");
+        console.log("- GetActiveTickers");
+        console.log("- StreamPrices (real-time price updates)");
+        console.log("REST/JSON: GET|POST /api/tickers, GET|DELETE /api/tickers/:symbol, GET /api/stream (SSE)");
+        console.log(`WebSocket: ws://localhost:${config.server.port}/ws`);
+        console.log(`Metrics: http://localhost:${config.server.port}/metrics`);
+        console.log(`Health: http://localhost:${config.server.port}/healthz, /readyz`);
+    });
 });
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { randomBytes } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { ApiKeyEntry, ROLES, Role } from "./auth";
+import { ConfigError, loadConfig } from "./config";
+
+// Manage the API keys file: `pnpm -F server keys add <name> <role>`, `remove <name>`, `list`
+async function main(args: string[]): Promise<void> {
+  const file = loadConfig().auth.keysFile;
+  const [command, name, role] = args;
+
+  const keys = await readKeys(file);
+  switch (command) {
+    case "add": {
+      if (!name || !ROLES.includes(role as Role)) {
+        throw new Error(`Usage: keys add <name> <${ROLES.join("|")}>`);
+      }
+      if (keys.some(entry => entry.name === name)) {
+        throw new Error(`A key named "${name}" already exists; remove it first to rotate`);
+      }
+      const key = randomBytes(24).toString("base64url");
+      keys.push({ name, role: role as Role, key });
+      await writeKeys(file, keys);
+      console.log(`Added ${role} key for ${name}: ${key}`);
+      break;
+    }
+    case "remove": {
+      if (!name) throw new Error("Usage: keys remove <name>");
+      const remaining = keys.filter(entry => entry.name !== name);
+      if (remaining.length === keys.length) throw new Error(`No key named "${name}"`);
+      await writeKeys(file, remaining);
+      console.log(`Removed key for ${name}`);
+      break;
+    }
+    case "list":
+      for (const entry of keys) {
+        console.log(`${entry.name}\t${entry.role}\t${entry.key.slice(0, 4)}…`);
+      }
+      break;
+    default:
+      throw new Error("Usage: keys <add|remove|list> ...");
+  }
+}
+
+async function readKeys(file: string): Promise<ApiKeyEntry[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(file, "utf8"));
+    return Array.isArray(parsed.keys) ? parsed.keys : [];
+  } catch (err: any) {
+    if (err.code === "ENOENT") return [];
+    throw err;
+  }
+}
+
+// Same temp file + rename as the state file; the running server picks the change up
+async function writeKeys(file: string, keys: ApiKeyEntry[]): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify({ keys }, null, 2), { mode: 0o600 });
+  await fs.rename(tmp, file);
+}
+
+main(process.argv.slice(2)).catch(err => {
+  console.error(err instanceof ConfigError ? err.message : err.message ?? err);
+  process.exit(1);
+});
@@ -0,0 +1,111 @@
+import { Code, ConnectError, Interceptor, createContextKey } from "@connectrpc/connect";
+import { principalKey } from "./auth";
+
+// Buckets kept before idle (full) ones are dropped
+const MAX_TRACKED_CLIENTS = 10_000;
+
+// Remote address of the caller's connection. Direct Connect calls get it from the socket; calls the
+// gateway and WebSocket make on a client's behalf carry it in CLIENT_ADDRESS_HEADER, which only
+// counts when the context has no address, so a direct caller can't pick its own bucket.
+export const clientAddressKey = createContextKey<string | null>(null, { description: "Caller's remote address" });
+export const CLIENT_ADDRESS_HEADER = "x-client-address";
+
+// Runs at most maxConcurrent tasks at once; up to maxQueued more wait their turn in order.
+// Anything beyond that is rejected with RESOURCE_EXHAUSTED rather than piling up.
+export class ConcurrencyLimiter {
+  private running = 0;
+  private waiting: (() => void)[] = [];
+
+  constructor(private maxConcurrent: number, private maxQueued: number, private what: string) {}
+
+  get active(): number {
+    return this.running;
+  }
+
+  get queued(): number {
+    return this.waiting.length;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    if (this.running < this.maxConcurrent) {
+      this.running++;
+    } else if (this.waiting.length < this.maxQueued) {
+      await new Promise<void>(resolve => this.waiting.push(resolve)); // slot handed over by a finishing task
+    } else {
+      throw new ConnectError(
+        `Too many ${this.what} in progress (${this.running} running, ${this.waiting.length} queued), try again shortly`,
+        Code.ResourceExhausted
+      );
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) next();
+      else this.running--;
+    }
+  }
+}
+
+export interface RateLimit {
+  perMinute: number; // sustained rate
+  burst: number; // calls allowed back to back
+}
+
+// Token bucket per client: each call takes a token, tokens refill at perMinute
+export class RateLimiter {
+  private buckets = new Map<string, { tokens: number; updated: number }>();
+
+  constructor(readonly limit: RateLimit) {}
+
+  // 0 if the call may go ahead, otherwise ms until the client has a token again
+  take(client: string, now = Date.now()): number {
+    const refillMs = 60_000 / this.limit.perMinute;
+    const bucket = this.buckets.get(client) ?? { tokens: this.limit.burst, updated: now };
+    bucket.tokens = Math.min(this.limit.burst, bucket.tokens + (now - bucket.updated) / refillMs);
+    bucket.updated = now;
+
+    if (!this.buckets.has(client)) {
+      if (this.buckets.size >= MAX_TRACKED_CLIENTS) this.prune(now);
+      this.buckets.set(client, bucket);
+    }
+
+    if (bucket.tokens < 1) {
+      return Math.ceil((1 - bucket.tokens) * refillMs);
+    }
+    bucket.tokens -= 1;
+    return 0;
+  }
+
+  // Drop clients whose bucket has refilled; they start full again anyway
+  private prune(now: number): void {
+    const refillMs = 60_000 / this.limit.perMinute;
+    for (const [client, bucket] of this.buckets) {
+      if (bucket.tokens + (now - bucket.updated) / refillMs >= this.limit.burst) this.buckets.delete(client);
+    }
+  }
+}
+
+// Rate limits the given methods per caller: the API key owner, or the remote address for callers
+// without a key (auth off, or admitted with the anonymous role, which every one of them shares). The session header is chosen by the client, so it can't be
+// trusted for this. Must run after the auth interceptor so the caller is known.
+export function createRateLimitInterceptor(limiter: RateLimiter, methods: string[]): Interceptor {
+  return next => async req => {
+    if (methods.includes(req.method.name)) {
+      const principal = req.contextValues.get(principalKey);
+      const address = req.contextValues.get(clientAddressKey) ?? req.header.get(CLIENT_ADDRESS_HEADER) ?? "unknown";
+      const client = principal && !principal.anonymous ? `key:${principal.name}` : `address:${address}`;
+      const waitMs = limiter.take(client);
+      if (waitMs > 0) {
+        const seconds = Math.ceil(waitMs / 1000);
+        throw new ConnectError(
+          `Rate limit exceeded: at most ${limiter.limit.perMinute} changes per minute (bursts of ${limiter.limit.burst}), retry in ${seconds}s`,
+          Code.ResourceExhausted,
+          { "Retry-After": String(seconds) }
+        );
+      }
+    }
+    return next(req);
+  };
+}
@@ -0,0 +1,133 @@
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from "prom-client";
+
+// Live server state read when /metrics is scraped
+export interface MetricsSource {
+  // Open streams per RPC (prices, candles, alerts)
+  streamClients(): Record<string, number>;
+  // Updates waiting in each price stream's queue, labelled by stream id (or a sequence number)
+  queueDepths(): { client: string; depth: number }[];
+  openPages(): number;
+  // Last tick time (ms since epoch) of every tracked ticker that has had one
+  lastTicks(): { symbol: string; exchange: string; timestamp: number }[];
+}
+
+// Prometheus metrics for the price feed and its clients, served on /metrics
+export class ServerMetrics {
+  readonly registry = new Registry();
+
+  readonly ticksReceived = new Counter({
+    name: "crypto_ticks_received_total",
+    help: "Prices received from the price source",
+    labelNames: ["ticker", "exchange"],
+    registers: [this.registry],
+  });
+
+  readonly ticksBroadcast = new Counter({
+    name: "crypto_ticks_broadcast_total",
+    help: "Price updates queued for streaming clients, one per client",
+    registers: [this.registry],
+  });
+
+  readonly validations = new Counter({
+    name: "crypto_ticker_validations_total",
+    help: "Ticker validation attempts",
+    registers: [this.registry],
+  });
+
+  readonly validationFailures = new Counter({
+    name: "crypto_ticker_validation_failures_total",
+    help: "Ticker validations that rejected the ticker or threw",
+    registers: [this.registry],
+  });
+
+  readonly validationDuration = new Histogram({
+    name: "crypto_ticker_validation_duration_seconds",
+    help: "Time taken to validate a ticker",
+    buckets: [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+    registers: [this.registry],
+  });
+
+  readonly subscriptionFailures = new Counter({
+    name: "crypto_subscription_failures_total",
+    help: "Tickers removed because their price feed failed",
+    labelNames: ["ticker", "exchange"],
+    registers: [this.registry],
+  });
+
+  constructor(source: MetricsSource) {
+    collectDefaultMetrics({ register: this.registry });
+
+    new Gauge({
+      name: "crypto_stream_clients",
+      help: "Connected streaming clients",
+      labelNames: ["stream"],
+      registers: [this.registry],
+      collect() {
+        this.reset();
+        for (const [stream, count] of Object.entries(source.streamClients())) {
+          this.set({ stream }, count);
+        }
+      },
+    });
+
+    new Gauge({
+      name: "crypto_stream_queue_depth",
+      help: "Updates waiting to be delivered to a price stream",
+      labelNames: ["client"],
+      registers: [this.registry],
+      collect() {
+        this.reset(); // disconnected clients drop out
+        for (const { client, depth } of source.queueDepths()) {
+          this.set({ client }, depth);
+        }
+      },
+    });
+
+    new Gauge({
+      name: "crypto_open_pages",
+      help: "Browser pages open for tracked tickers",
+      registers: [this.registry],
+      collect() {
+        this.set(source.openPages());
+      },
+    });
+
+    new Gauge({
+      name: "crypto_seconds_since_last_tick",
+      help: "Seconds since the last price of each tracked ticker",
+      labelNames: ["ticker", "exchange"],
+      registers: [this.registry],
+      collect() {
+        this.reset(); // removed tickers drop out
+        const now = Date.now();
+        for (const { symbol, exchange, timestamp } of source.lastTicks()) {
+          this.set({ ticker: symbol, exchange }, (now - timestamp) / 1000);
+        }
+      },
+    });
+  }
+
+  // Counts a validation and its latency; failures include validations that throw
+  async timeValidation(validate: () => Promise<boolean>): Promise<boolean> {
+    this.validations.inc();
+    const stop = this.validationDuration.startTimer();
+    try {
+      const valid = await validate();
+      if (!valid) this.validationFailures.inc();
+      return valid;
+    } catch (err) {
+      this.validationFailures.inc();
+      throw err;
+    } finally {
+      stop();
+    }
+  }
+
+  contentType(): string {
+    return this.registry.contentType;
+  }
+
+  render(): Promise<string> {
+    return this.registry.metrics();
+  }
+}
@@ -0,0 +1,90 @@
+// Exchanges tickers can be tracked on (TradingView exchange prefixes)
+export const EXCHANGES = ["BINANCE", "COINBASE", "KRAKEN", "BYBIT"];
+export const DEFAULT_EXCHANGE = "BINANCE";
+
+// An upper-cased ticker symbol as TradingView writes it (BTCUSDT, BTC.D, 1000PEPEUSDT). No "/" and
+// at least one letter or digit, since the symbol becomes part of the page URL ("." or ".." would
+// point at another page).
+export const SYMBOL_PATTERN = /^(?=.*[A-Z0-9])[A-Z0-9._\-!]+$/;
+
+// A ticker as clients send it (" btcusdt ", no exchange) in the form it is tracked under
+export function normalizeTicker(symbol: string, exchange: string): { symbol: string; exchange: string } {
+  return { symbol: symbol.trim().toUpperCase(), exchange: exchange.trim().toUpperCase() || DEFAULT_EXCHANGE };
+}
+
+// Unique key for a symbol on an exchange, e.g. "BINANCE:BTCUSDT" (same notation TradingView uses)
+export function tickerKey(exchange: string, symbol: string): string {
+  return `${exchange}:${symbol}`;
+}
+
+// Daily stats shown next to the price, as exact decimal strings; a source reports whichever
+// fields it has, and later reports only need to carry the fields that changed
+export interface QuoteData {
+  change?: string; // since the daily open
+  changePercent?: string;
+  volume?: string; // 24h, base units
+  dayHigh?: string;
+  dayLow?: string;
+  bid?: string;
+  ask?: string;
+}
+
+// Callbacks handed to a price source when subscribing to a ticker.
+// Prices are exact decimal strings as quoted by the source, e.g. "0.00002451" (see decimal.ts).
+// A source that computes stats together with the price can pass them along with the tick.
+export type PriceCallback = (price: string, quote?: QuoteData) => void;
+export type ErrorCallback = (failedSymbol: string, reason: string) => void;
+// Stats that changed without a new price (e.g. volume ticking up)
+export type QuoteCallback = (quote: QuoteData) => void;
+
+// One moving part of a price source (browser, context, ...) as reported on /readyz
+export interface SourceComponent {
+  name: string;
+  ok: boolean;
+  detail: string;
+}
+
+// A symbol the source can stream, as kept in the symbol catalog
+export interface ListedSymbol {
+  symbol: string;
+  exchange: string;
+  description: string; // e.g. "Bitcoin / TetherUS"; may be empty
+}
+
+// Anything the RPC handlers can pull live prices from (TradingView, simulator, ...)
+export interface PriceSource {
+  // Get ready for the first ticker (e.g. launch the browser); throws if that fails
+  initialize(): Promise<void>;
+
+  // Check that a ticker exists on the exchange before it is tracked: false if the source confirms
+  // it doesn't; throws if it couldn't tell (network error, timeout), so the answer isn't cached
+  validateTicker(symbol: string, exchange: string): Promise<boolean>;
+
+  // Start pushing prices for a ticker; onError is called if the feed can't be kept alive
+  subscribeToTicker(
+    symbol: string,
+    exchange: string,
+    onPrice: PriceCallback,
+    onError?: ErrorCallback,
+    onQuote?: QuoteCallback
+  ): Promise<void>;
+
+  // Re-attach a subscribed ticker whose feed went silent, keeping its original callbacks.
+  // Throws if the feed could not be re-attached; onError is not called.
+  recoverTicker(symbol: string, exchange: string): Promise<void>;
+
+  // Symbols available on an exchange, for refreshing the symbol catalog; throws if they can't be fetched
+  listSymbols(exchange: string): Promise<ListedSymbol[]>;
+
+  // Stop pushing prices for a ticker and release its resources
+  unsubscribeFromTicker(symbol: string, exchange: string): Promise<void>;
+
+  // Browser pages (or the source's equivalent per-ticker feeds) currently open
+  openPages(): number;
+
+  // Whether each part the source depends on is usable right now
+  health(): SourceComponent[];
+
+  // Release everything (browser, timers, ...)
+  close(): Promise<void>;
+}
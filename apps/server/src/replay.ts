@@ -0,0 +1,43 @@
+// Numbers outgoing updates and keeps the most recent ones, so a client that reconnects can be sent
+// exactly what it missed. Sequences are consecutive; the ring holds the last `capacity` of them.
+export class ReplayLog<T> {
+  private ring: T[];
+  private next = 0; // ring index the next entry goes to
+  private size = 0;
+  private last: bigint;
+
+  // start: the sequence before the first entry. Seeding it from the clock keeps sequences increasing
+  // across restarts, so a resume point from an earlier run is never mistaken for a recent one.
+  constructor(private capacity: number, start: bigint) {
+    this.ring = new Array(capacity);
+    this.last = start;
+  }
+
+  // Sequence of the most recent entry
+  get latest(): bigint {
+    return this.last;
+  }
+
+  // Store an entry and return its sequence
+  append(entry: T): bigint {
+    this.last += 1n;
+    this.ring[this.next] = entry;
+    this.next = (this.next + 1) % this.capacity;
+    this.size = Math.min(this.size + 1, this.capacity);
+    return this.last;
+  }
+
+  // Entries after the given sequence, oldest first, or null if some have already been dropped or
+  // the sequence was never handed out by this log (e.g. it is from a later run's higher clock seed)
+  since(sequence: bigint): T[] | null {
+    if (sequence > this.last) return null;
+    const missed = this.last - sequence;
+    if (missed > BigInt(this.size)) return null;
+
+    const entries: T[] = [];
+    for (let i = Number(missed); i > 0; i--) {
+      entries.push(this.ring[(this.next - i + this.capacity) % this.capacity]);
+    }
+    return entries;
+  }
+}
@@ -1,209 +1,639 @@
 import { chromium, Browser, BrowserContext, Page } from "playwright";
+import { ErrorCallback, ListedSymbol, PriceCallback, PriceSource, QuoteCallback, QuoteData, SourceComponent, tickerKey } from "./priceSource";
+import { parseAbbreviatedDecimal, parseDecimal } from "./decimal";
 
-export class TradingViewScraper {
+export interface ScraperOptions {
+  // Run Chromium without a window (required on machines without a display)
+  headless?: boolean;
+  // Page load timeout when validating a new ticker
+  validationTimeoutMs?: number;
+  // Page load timeout when opening a ticker's page for streaming
+  navigationTimeoutMs?: number;
+  // How long to wait for each candidate price selector
+  selectorTimeoutMs?: number;
+  // Price element selectors, tried in order (TradingView DOM changes often)
+  priceSelectors?: string[];
+  // Relaunch / reopen attempts after a browser or page crash before giving up
+  maxRecoveryAttempts?: number;
+  // Delay before the first retry, doubled on each further attempt
+  retryDelayMs?: number;
+}
+
+export const DEFAULT_SCRAPER_OPTIONS: Required<ScraperOptions> = {
+  headless: false,
+  validationTimeoutMs: 10000,
+  navigationTimeoutMs: 30000,
+  selectorTimeoutMs: 5000,
+  priceSelectors: [
+    '[data-field="last_price"]',
+    ".js-symbol-last",
+    ".tv-symbol-price-quote__value",
+    '[class*="last-JWoJqCpY"]',
+    '[class*="price"]',
+  ],
+  maxRecoveryAttempts: 5,
+  retryDelayMs: 1000,
+};
+
+// Something that happened while keeping the browser alive, kept for diagnostics
+export interface RecoveryEvent {
+  timestamp: number;
+  type:
+    | "browser_disconnected"
+    | "context_closed"
+    | "page_crashed"
+    | "page_closed"
+    | "relaunched"
+    | "resubscribed"
+    | "retry_failed"
+    | "gave_up";
+  key?: string; // exchange:symbol for page-level events
+  detail?: string;
+}
+
+// Most recent recovery events kept in memory
+const RECOVERY_LOG_SIZE = 200;
+
+// Candidate selectors for the daily stats on a symbol page (TradingView DOM changes often)
+const QUOTE_SELECTORS: Record<keyof QuoteData, string[]> = {
+  change: ['[data-field="change"]', ".js-symbol-change"],
+  changePercent: ['[data-field="change_percent"]', ".js-symbol-change-pt"],
+  volume: ['[data-field="volume"]', ".js-symbol-volume"],
+  dayHigh: ['[data-field="high_price"]', ".js-symbol-high"],
+  dayLow: ['[data-field="low_price"]', ".js-symbol-low"],
+  bid: ['[data-field="bid"]', ".js-symbol-bid"],
+  ask: ['[data-field="ask"]', ".js-symbol-ask"],
+};
+
+// TradingView's symbol search, used to refresh the symbol catalog. Pages hold 50 symbols,
+// most popular first; only the first few pages per exchange are worth keeping.
+const SYMBOL_SEARCH_URL = "https://symbol-search.tradingview.com/symbol_search/v3/";
+const SYMBOL_SEARCH_MAX_PAGES = 10;
+
+interface Subscription {
+  symbol: string;
+  exchange: string;
+  onPrice: PriceCallback;
+  onError?: ErrorCallback;
+  onQuote?: QuoteCallback;
+}
+
+export class TradingViewScraper implements PriceSource {
   private browser: Browser | null = null;
   private context: BrowserContext | null = null;
-  private pages: Map<string, Page> = new Map(); // Track one page per ticker
-  // Track which symbols are subscribed to (prevents double-subscribe)
+  private launching: Promise<void> | null = null;
+  private relaunching: Promise<void> | null = null;
+  private closing = false;
+  private launchError: string | null = null; // why the last launch failed, for health checks
+  private pages: Map<string, Page> = new Map(); // Track one page per exchange:symbol
+  // Track which exchange:symbol keys are subscribed to (prevents double-subscribe)
   private subscriptions = new Set<string>();
+  // Original callbacks per exchange:symbol, reused when a page or the browser is recovered
+  private callbacks: Map<string, Subscription> = new Map();
+  // exchange:symbol keys whose page is being replaced; one recovery per ticker at a time
+  private recoveringPages = new Set<string>();
+  private recoveryLog: RecoveryEvent[] = [];
+  private options: Required<ScraperOptions>;
 
-  // Initialize browser + context if not already done
+  constructor(options: ScraperOptions = {}) {
+    this.options = { ...DEFAULT_SCRAPER_OPTIONS, ...options };
+  }
+
+  // Initialize browser + context if not already done (concurrent callers share one launch)
   async initialize() {
-    if (!this.browser) {
-      this.browser = await chromium.launch({
-        headless: false, // Running in headed mode per task requirements
-      });
-      this.context = await this.browser.newContext();
+    if (this.browser && this.context) return;
+    if (!this.launching) {
+      this.launching = this.launch()
+        .then(
+          () => {
+            this.launchError = null;
+          },
+          err => {
+            this.launchError = String(err.message).split("\n")[0]; // Playwright appends install hints
+            throw err;
+          }
+        )
+        .finally(() => {
+          this.launching = null;
+        });
     }
+    await this.launching;
+  }
+
+  // Recovery events, oldest first
+  recoveryEvents(): RecoveryEvent[] {
+    return [...this.recoveryLog];
+  }
+
+  private async launch(): Promise<void> {
+    const browser = await chromium.launch({
+      headless: this.options.headless,
+    });
+    const context = await browser.newContext();
+
+    // Anything we didn't close ourselves means the browser crashed or was killed
+    browser.on("disconnected", () => {
+      if (this.closing || this.browser !== browser) return;
+      this.logRecovery({ type: "browser_disconnected" });
+      this.relaunch();
+    });
+    context.on("close", () => {
+      if (this.closing || this.context !== context || !browser.isConnected()) return;
+      this.logRecovery({ type: "context_closed" });
+      this.relaunch();
+    });
+
+    this.browser = browser;
+    this.context = context;
   }
 
-  // Check if valid ticker and display error message if invalid
-  async validateTicker(symbol: string): Promise<boolean> {
+  // Check if valid ticker: false if the symbol page has no price. Navigation errors and timeouts
+  // are rethrown, since they say nothing about the ticker.
+  async validateTicker(symbol: string, exchange: string): Promise<boolean> {
     await this.initialize();
     const page = await this.context!.newPage();
-    const url = `https://www.tradingview.com/symbols/${symbol}/?exchange=BINANCE`;
+    const url = this.symbolUrl(symbol, exchange);
     console.log(`Validating ticker at URL: ${url}`);
 
     try {
-      await page.goto(url, { waitUntil: "domcontentloaded", timeout: 10000 });
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: this.options.validationTimeoutMs });
       // Check for a selector to validate (price in this case)
       const exists = await page.$('[class*="price"]');
       await page.close();
       return !!exists;
     } catch (err) {
-      console.error(`Error validating ${symbol}:`, err);
-      await page.close();
-      return false;
+      console.error(`Error validating ${tickerKey(exchange, symbol)}:`, err);
+      await page.close().catch(() => {});
+      throw err;
+    }
+  }
+
+  // Crypto symbols listed on an exchange, from the symbol search API (no browser needed)
+  async listSymbols(exchange: string): Promise<ListedSymbol[]> {
+    const symbols: ListedSymbol[] = [];
+    for (let page = 0; page < SYMBOL_SEARCH_MAX_PAGES; page++) {
+      const url = new URL(SYMBOL_SEARCH_URL);
+      url.searchParams.set("text", "");
+      url.searchParams.set("exchange", exchange);
+      url.searchParams.set("search_type", "crypto");
+      url.searchParams.set("start", String(symbols.length));
+      const response = await fetch(url, {
+        headers: { Origin: "https://www.tradingview.com" }, // the API rejects requests without it
+        signal: AbortSignal.timeout(this.options.navigationTimeoutMs),
+      });
+      if (!response.ok) {
+        throw new Error(`Symbol search for ${exchange} failed with HTTP ${response.status}`);
+      }
+      const body: any = await response.json();
+      const found: any[] = Array.isArray(body) ? body : body.symbols ?? [];
+      for (const entry of found) {
+        if (typeof entry?.symbol !== "string") continue;
+        symbols.push({
+          symbol: stripHighlight(entry.symbol).toUpperCase(),
+          exchange,
+          description: typeof entry.description === "string" ? stripHighlight(entry.description) : "",
+        });
+      }
+      if (found.length === 0 || !(body.symbols_remaining > 0)) break;
     }
+    return symbols;
+  }
+
+  // TradingView symbol page for a ticker on an exchange
+  private symbolUrl(symbol: string, exchange: string): string {
+    return `https://www.tradingview.com/symbols/${encodeURIComponent(symbol)}/?exchange=${encodeURIComponent(exchange)}`;
   }
 
   // Open (or reuse) a page for a given ticker
-  private async getPageForTicker(symbol: string): Promise<Page> {
+  private async getPageForTicker(symbol: string, exchange: string): Promise<Page> {
     if (!this.context) await this.initialize();
 
-    if (this.pages.has(symbol)) {
-      return this.pages.get(symbol)!; // Reuse existing page
+    const key = tickerKey(exchange, symbol);
+    if (this.pages.has(key)) {
+      return this.pages.get(key)!; // Reuse existing page
     }
 
     const page = await this.context!.newPage(); // Opens new tab
-    const url = `https://www.tradingview.com/symbols/${symbol}/?exchange=BINANCE`; // Builds URL
+    const url = this.symbolUrl(symbol, exchange); // Builds URL
     console.log(`Opening page for ${url}`);
 
-    await page.goto(url, { waitUntil: "domcontentloaded", timeout: 30000 });
+    try {
+      await page.goto(url, { waitUntil: "domcontentloaded", timeout: this.options.navigationTimeoutMs });
+    } catch (err) {
+      await page.close().catch(() => {}); // not tracked yet, so nothing else would close it
+      throw err;
+    }
 
-    this.pages.set(symbol, page);
+    this.pages.set(key, page);
+    this.watchPage(key, page);
     return page;
   }
 
+  // Reopen a subscribed ticker's page if it crashes or is closed by something other than us
+  private watchPage(key: string, page: Page): void {
+    page.on("crash", () => {
+      if (this.pages.get(key) !== page) return;
+      this.logRecovery({ type: "page_crashed", key });
+      this.recoverPage(key);
+    });
+    page.on("close", () => {
+      // Pages are dropped from the map before we close them, so a tracked page closing is unexpected.
+      // When the whole browser goes down the relaunch resubscribes every ticker instead.
+      if (this.closing || this.pages.get(key) !== page || !this.browser?.isConnected()) return;
+      this.logRecovery({ type: "page_closed", key });
+      this.recoverPage(key);
+    });
+  }
+
   // Subscribe to live updates for a ticker
   async subscribeToTicker(
     symbol: string,
-    onPrice: (price: number) => void,
-    onError?: (failedSymbol: string, reason: string) => void
+    exchange: string,
+    onPrice: PriceCallback,
+    onError?: ErrorCallback,
+    onQuote?: QuoteCallback
   ): Promise<void> {
-    if (this.subscriptions.has(symbol)) {
-      console.log(`Already subscribed to ${symbol}`);
-      await this.unsubscribeFromTicker(symbol); // ensures clean slate
+    const key = tickerKey(exchange, symbol);
+    if (this.subscriptions.has(key)) {
+      console.log(`Already subscribed to ${key}`);
+      await this.unsubscribeFromTicker(symbol, exchange); // ensures clean slate
       return;
     }
 
-    const page = await this.getPageForTicker(symbol);
-
     try {
-      // Try multiple possible selectors (TradingView DOM changes often)
-      const possibleSelectors = [
-        '[data-field="last_price"]',
-        ".js-symbol-last",
-        ".tv-symbol-price-quote__value",
-        '[class*="last-JWoJqCpY"]',
-        '[class*="price"]',
-      ];
-
-      let targetSelector: string | null = null;
-
-      for (const sel of possibleSelectors) {
-        try {
-          await page.waitForSelector(sel, { timeout: 5000 });
-          targetSelector = sel;
-          break;
-        } catch {
-          continue;
-        }
-      }
+      const subscription: Subscription = { symbol, exchange, onPrice, onError, onQuote };
+      const page = await this.getPageForTicker(symbol, exchange);
+      await this.attachObservers(page, key, subscription);
 
-      if (!targetSelector) {
-        // Fallback: scan page text for a price-like string
-        const fallback = await page.evaluate(() => {
-          const elements = document.querySelectorAll("*");
-          const priceRegex = /^\$?(?:\d{1,3}(?:,\d{3})*|\d+)(?:\.\d+)?$/;
-          for (const el of Array.from(elements)) {
-            const text = el.textContent?.trim();
-            if (
-              text &&
-              priceRegex.test(text) &&
-              parseFloat(text.replace(/[\$,]/g, "")) > 0.00001
-            ) {
-              return { sel: null, initial: text };
-            }
-          }
-          return null;
-        });
+      this.subscriptions.add(key);
+      this.callbacks.set(key, subscription);
+      console.log(`Subscribed to live updates for ${key}`);
+    } catch (err: any) {
+      console.error(`Failed to subscribe to ${key}:`, err);
+      this.subscriptions.delete(key);
 
-        if (fallback) {
-          const price = this.cleanPriceText(fallback.initial);
-          if (price !== null) {
-            console.log(`[STREAM-FALLBACK] ${symbol} → ${price}`);
-            onPrice(price);
-          }
-        } else {
-          throw new Error(`No valid price element found for ${symbol}`);
-        }
+      if (onError) {
+        onError(symbol, err.message || "Unknown error");
       }
+    }
+  }
 
-      const exposedName = `onPriceUpdate_${symbol}`;
+  // Price is required; daily stats are best effort since not every page shows all of them
+  private async attachObservers(page: Page, key: string, subscription: Subscription): Promise<void> {
+    await this.attachPriceObserver(page, subscription.symbol, key, subscription.onPrice);
+    if (subscription.onQuote) {
+      await this.attachQuoteObserver(page, subscription.symbol, key, subscription.onQuote).catch(err =>
+        console.warn(`Daily stats unavailable for ${key}:`, err)
+      );
+    }
+  }
 
-      // Expose Node-side function
-      await page.exposeFunction(exposedName, (raw: string) => {
-        const price = this.cleanPriceText(raw);
-        if (price !== null) {
-          console.log(`[STREAM] ${symbol} → ${price}`);
-          onPrice(price);
-        }
-      });
+  // Stream changes of whichever daily stat elements the page has to onQuote
+  private async attachQuoteObserver(page: Page, symbol: string, key: string, onQuote: QuoteCallback): Promise<void> {
+    const exposedName = `onQuoteUpdate_${symbol}`;
 
-      // Inject MutationObserver
-      await page.evaluate(
-        (args: { sel: string | null; fnName: string }) => {
-          let target: Element | null = null;
-          if (args.sel) {
-            target = document.querySelector(args.sel);
-          }
-          if (!target) return;
+    await page.exposeFunction(exposedName, (field: keyof QuoteData, raw: string) => {
+      const value = field === "volume" ? parseAbbreviatedDecimal(raw) : parseDecimal(raw);
+      if (value !== null) {
+        onQuote({ [field]: value });
+      }
+    });
 
-          const observer = new MutationObserver(() => {
+    const found: string[] = await page.evaluate(
+      (args: { selectors: Record<string, string[]>; fnName: string }) => {
+        const observed: string[] = [];
+        for (const [field, candidates] of Object.entries(args.selectors)) {
+          const target = candidates.map(sel => document.querySelector(sel)).find(el => el !== null);
+          if (!target) continue;
+
+          const report = () => {
             try {
-              (window as any)[args.fnName](target!.textContent || "");
+              (window as any)[args.fnName](field, target.textContent || "");
             } catch {
               // ignore
             }
-          });
-
-          observer.observe(target, {
+          };
+          new MutationObserver(report).observe(target, {
             childList: true,
             subtree: true,
             characterData: true,
           });
+          report(); // send the initial value once
+          observed.push(field);
+        }
+        return observed;
+      },
+      { selectors: QUOTE_SELECTORS, fnName: exposedName }
+    );
+
+    console.log(`Observing daily stats for ${key}: ${found.length > 0 ? found.join(", ") : "none found"}`);
+  }
+
+  // Find the price element on a page and stream its changes to onPrice; throws if none is found
+  private async attachPriceObserver(page: Page, symbol: string, key: string, onPrice: PriceCallback): Promise<void> {
+    let targetSelector: string | null = null;
+
+    // Try multiple possible selectors (TradingView DOM changes often)
+    for (const sel of this.options.priceSelectors) {
+      try {
+        await page.waitForSelector(sel, { timeout: this.options.selectorTimeoutMs });
+        targetSelector = sel;
+        break;
+      } catch {
+        continue;
+      }
+    }
+
+    if (!targetSelector) {
+      // Fallback: scan page text for a price-like string
+      const fallback = await page.evaluate(() => {
+        const elements = document.querySelectorAll("*");
+        const priceRegex = /^\$?(?:\d{1,3}(?:,\d{3})*|\d+)(?:\.\d+)?$/;
+        for (const el of Array.from(elements)) {
+          const text = el.textContent?.trim();
+          if (
+            text &&
+            priceRegex.test(text) &&
+            parseFloat(text.replace(/[\$,]/g, "")) > 0.00001
+          ) {
+            return { sel: null, initial: text };
+          }
+        }
+        return null;
+      });
+
+      if (fallback) {
+        const price = parseDecimal(fallback.initial);
+        if (price !== null) {
+          console.log(`[STREAM-FALLBACK] ${key} → ${price}`);
+          onPrice(price);
+        }
+      } else {
+        throw new Error(`No valid price element found for ${key}`);
+      }
+    }
+
+    const exposedName = `onPriceUpdate_${symbol}`;
+
+    // Expose Node-side function
+    await page.exposeFunction(exposedName, (raw: string) => {
+      const price = parseDecimal(raw);
+      if (price !== null) {
+        console.log(`[STREAM] ${key} → ${price}`);
+        onPrice(price);
+      }
+    });
+
+    // Inject MutationObserver
+    await page.evaluate(
+      (args: { sel: string | null; fnName: string }) => {
+        let target: Element | null = null;
+        if (args.sel) {
+          target = document.querySelector(args.sel);
+        }
+        if (!target) return;
 
-          // send the initial value once
+        const observer = new MutationObserver(() => {
           try {
             (window as any)[args.fnName](target!.textContent || "");
           } catch {
             // ignore
           }
-        },
-        { sel: targetSelector, fnName: exposedName }
-      );
+        });
 
-      this.subscriptions.add(symbol);
-      console.log(`Subscribed to live updates for ${symbol}`);
-    } catch (err: any) {
-      console.error(`Failed to subscribe to ${symbol}:`, err);
-      this.subscriptions.delete(symbol);
+        observer.observe(target, {
+          childList: true,
+          subtree: true,
+          characterData: true,
+        });
 
-      if (onError) {
-        onError(symbol, err.message || "Unknown error");
+        // send the initial value once
+        try {
+          (window as any)[args.fnName](target!.textContent || "");
+        } catch {
+          // ignore
+        }
+      },
+      { sel: targetSelector, fnName: exposedName }
+    );
+  }
+
+  // Replace a stalled ticker's page with a fresh one and re-attach the original callback.
+  // Throws on failure so the caller decides when to give up (onError is not called).
+  async recoverTicker(symbol: string, exchange: string): Promise<void> {
+    const key = tickerKey(exchange, symbol);
+    // a crashed page is already being reopened; a second recovery would attach observers twice
+    if (this.recoveringPages.has(key)) {
+      console.log(`Recovery of ${key} already in progress`);
+      return;
+    }
+
+    this.recoveringPages.add(key);
+    try {
+      await this.reopenPage(key);
+    } finally {
+      this.recoveringPages.delete(key);
+    }
+  }
+
+  // Swap a ticker's page for a fresh one; the caller holds the key in recoveringPages
+  private async reopenPage(key: string): Promise<void> {
+    // a browser relaunch resubscribes every ticker itself
+    if (this.relaunching) await this.relaunching;
+
+    const callbacks = this.callbacks.get(key);
+    if (!callbacks) {
+      throw new Error(`Not subscribed to ${key}`);
+    }
+
+    // A fresh page rather than a reload: exposed functions can't be registered twice on a page
+    const stalled = this.pages.get(key);
+    this.pages.delete(key);
+    if (stalled) {
+      await stalled.close().catch(err => console.warn(`Error closing stalled page for ${key}:`, err));
+    }
+
+    const page = await this.getPageForTicker(callbacks.symbol, callbacks.exchange);
+    await this.attachObservers(page, key, callbacks);
+    console.log(`Recovered live updates for ${key}`);
+  }
+
+  // Page crashed or vanished: reopen it with bounded retries, then report the ticker as failed
+  private async recoverPage(key: string): Promise<void> {
+    if (this.recoveringPages.has(key)) return;
+    this.recoveringPages.add(key);
+
+    try {
+      // Close what is left of it first; dropped from the map beforehand so this close isn't taken
+      // for another crash
+      const crashed = this.pages.get(key);
+      this.pages.delete(key);
+      await crashed?.close().catch(() => {});
+
+      for (let attempt = 1; attempt <= this.options.maxRecoveryAttempts; attempt++) {
+        const subscription = this.callbacks.get(key);
+        // unsubscribed, shutting down, or the browser relaunch took over
+        if (!subscription || this.closing || this.relaunching) return;
+
+        try {
+          await this.reopenPage(key);
+          this.logRecovery({ type: "resubscribed", key, detail: `attempt ${attempt}` });
+          return;
+        } catch (err: any) {
+          this.logRecovery({ type: "retry_failed", key, detail: `attempt ${attempt}: ${err.message}` });
+          await delay(this.options.retryDelayMs * 2 ** (attempt - 1));
+        }
+      }
+
+      const subscription = this.callbacks.get(key);
+      if (subscription && !this.closing && !this.relaunching) {
+        this.logRecovery({ type: "gave_up", key, detail: `${this.options.maxRecoveryAttempts} attempts` });
+        this.failSubscription(key, `Page could not be reopened after ${this.options.maxRecoveryAttempts} attempts`);
       }
+    } finally {
+      this.recoveringPages.delete(key);
     }
   }
 
+  // Browser or context died: drop every dead reference, relaunch and resubscribe all tickers
+  private relaunch(): Promise<void> {
+    if (!this.relaunching) {
+      this.relaunching = this.relaunchAndResubscribe().finally(() => {
+        this.relaunching = null;
+      });
+    }
+    return this.relaunching;
+  }
+
+  private async relaunchAndResubscribe(): Promise<void> {
+    const dead = this.browser;
+    this.browser = null;
+    this.context = null;
+    this.pages.clear();
+    await dead?.close().catch(() => {}); // may already be gone
+
+    for (let attempt = 1; attempt <= this.options.maxRecoveryAttempts; attempt++) {
+      if (this.closing) return;
+
+      try {
+        await this.initialize();
+        this.logRecovery({ type: "relaunched", detail: `attempt ${attempt}` });
+        break;
+      } catch (err: any) {
+        this.logRecovery({ type: "retry_failed", detail: `relaunch attempt ${attempt}: ${err.message}` });
+        if (attempt === this.options.maxRecoveryAttempts) {
+          this.logRecovery({ type: "gave_up", detail: `browser relaunch failed ${attempt} times` });
+          for (const key of [...this.callbacks.keys()]) {
+            this.failSubscription(key, "Browser crashed and could not be relaunched");
+          }
+          return;
+        }
+        await delay(this.options.retryDelayMs * 2 ** (attempt - 1));
+      }
+    }
+
+    // One at a time, like a fresh start, so the new browser isn't hit with every page at once
+    for (const [key, subscription] of [...this.callbacks]) {
+      if (this.closing) return;
+      if (this.callbacks.get(key) !== subscription) continue; // unsubscribed meanwhile
+
+      let lastError = "";
+      for (let attempt = 1; attempt <= this.options.maxRecoveryAttempts; attempt++) {
+        try {
+          const page = await this.getPageForTicker(subscription.symbol, subscription.exchange);
+          await this.attachObservers(page, key, subscription);
+          this.logRecovery({ type: "resubscribed", key, detail: `attempt ${attempt}` });
+          lastError = "";
+          break;
+        } catch (err: any) {
+          lastError = err.message;
+          this.logRecovery({ type: "retry_failed", key, detail: `resubscribe attempt ${attempt}: ${err.message}` });
+          // a page that failed to load was closed by getPageForTicker; one that loaded is closed here
+          const stale = this.pages.get(key);
+          this.pages.delete(key);
+          await stale?.close().catch(() => {});
+          if (attempt < this.options.maxRecoveryAttempts) {
+            await delay(this.options.retryDelayMs * 2 ** (attempt - 1));
+          }
+        }
+      }
+
+      if (lastError && this.callbacks.get(key) === subscription) {
+        this.logRecovery({ type: "gave_up", key, detail: lastError });
+        this.failSubscription(key, `Could not resubscribe after browser relaunch: ${lastError}`);
+      }
+    }
+  }
+
+  // Forget a subscription that can't be kept alive and tell its owner through the original onError
+  private failSubscription(key: string, reason: string): void {
+    const subscription = this.callbacks.get(key);
+    this.subscriptions.delete(key);
+    this.callbacks.delete(key);
+
+    const page = this.pages.get(key);
+    this.pages.delete(key);
+    page?.close().catch(() => {});
+
+    subscription?.onError?.(subscription.symbol, reason);
+  }
+
+  private logRecovery(event: Omit<RecoveryEvent, "timestamp">): void {
+    const entry: RecoveryEvent = { timestamp: Date.now(), ...event };
+    this.recoveryLog.push(entry);
+    if (this.recoveryLog.length > RECOVERY_LOG_SIZE) {
+      this.recoveryLog.shift();
+    }
+    const target = entry.key ? ` ${entry.key}` : "";
+    const detail = entry.detail ? ` (${entry.detail})` : "";
+    console.warn(`[RECOVERY] ${entry.type}${target}${detail}`);
+  }
+
+  openPages(): number {
+    return this.pages.size;
+  }
+
+  health(): SourceComponent[] {
+    const connected = this.browser?.isConnected() ?? false;
+    let browserDetail = "connected";
+    if (!connected) {
+      if (this.relaunching) browserDetail = "relaunching after a crash";
+      else if (this.launching) browserDetail = "launching";
+      else browserDetail = this.launchError ? `launch failed: ${this.launchError}` : "not launched";
+    }
+    return [
+      { name: "browser", ok: connected, detail: browserDetail },
+      {
+        name: "context",
+        ok: connected && this.context !== null,
+        detail: this.context ? `${this.pages.size} pages open` : "no browser context",
+      },
+    ];
+  }
+
   // Unsubscribe and clean up for a ticker
-  async unsubscribeFromTicker(symbol: string): Promise<void> {
-    this.subscriptions.delete(symbol);
+  async unsubscribeFromTicker(symbol: string, exchange: string): Promise<void> {
+    const key = tickerKey(exchange, symbol);
+    this.subscriptions.delete(key);
+    this.callbacks.delete(key);
 
-    const page = this.pages.get(symbol);
+    const page = this.pages.get(key);
     if (page) {
+      this.pages.delete(key); // before closing, so the close isn't mistaken for a crash
       try {
         await page.close();
-        console.log(`Closed page for ${symbol}`);
+        console.log(`Closed page for ${key}`);
       } catch (err) {
-        console.warn(`Error closing page for ${symbol}:`, err);
+        console.warn(`Error closing page for ${key}:`, err);
       }
-      this.pages.delete(symbol);
     } else {
-      console.log(`No page to close for ${symbol}`);
+      console.log(`No page to close for ${key}`);
     }
   }
 
-  // Helper to simplify raw price text into a number
-  private cleanPriceText(text: string | null | undefined): number | null {
-    if (!text) return null;
-    const cleaned = text.replace(/[\$,\s]/g, "");
-    const number = parseFloat(cleaned);
-    return isNaN(number) ? null : number;
-  }
-
   // Close all tabs, context, and browser
   async close(): Promise<void> {
+    this.closing = true;
     for (const page of this.pages.values()) {
       await page.close();
     }
@@ -219,3 +649,12 @@ export class TradingViewScraper {
     }
   }
 }
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// The search API wraps the matched part of names in <em> tags
+function stripHighlight(text: string): string {
+  return text.replace(/<\/?em>/g, "");
+}
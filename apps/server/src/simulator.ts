@@ -0,0 +1,205 @@
+import { ErrorCallback, ListedSymbol, PriceCallback, PriceSource, SourceComponent, EXCHANGES, tickerKey } from "./priceSource";
+import { compareDecimals, decimalPlaces, formatDecimal, isDecimal } from "./decimal";
+
+export interface SimulatorOptions {
+  // Tickers the simulator knows about, with their starting price (listed on every exchange).
+  // The starting price's decimals set the ticker's tick size, e.g. "0.00002450" quotes 8 places.
+  tickers?: Record<string, string>;
+  // Optional scripted prices per ticker, replayed in order before the random walk takes over
+  script?: Record<string, string[]>;
+  // Milliseconds between ticks
+  intervalMs?: number;
+  // Max relative move per tick (0.001 = 0.1%)
+  volatility?: number;
+  // Seed for the random walk so runs are reproducible
+  seed?: number;
+  // Stop ticking after this many ticks (until recovered) to exercise stale-feed handling
+  stallAfterTicks?: number;
+}
+
+const DEFAULT_TICKERS: Record<string, string> = {
+  BTCUSDT: "65000.00",
+  ETHUSDT: "3200.00",
+  SOLUSDT: "150.00",
+  DOGEUSDT: "0.15000",
+  SHIBUSDT: "0.00002450",
+  PEPEUSDT: "0.0000120000",
+};
+
+// Small seeded PRNG (mulberry32) so simulated runs are deterministic
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Offline price source: random walk (or scripted ticks) over a fixed set of tickers.
+// Each exchange gets its own independent walk, so the same symbol drifts apart across exchanges.
+export class SimulatedPriceSource implements PriceSource {
+  private tickers: Map<string, string>;
+  private script: Map<string, string[]>;
+  private intervalMs: number;
+  private volatility: number;
+  private seed: number;
+  private stallAfterTicks: number;
+  private timers: Map<string, NodeJS.Timeout> = new Map(); // One timer per subscribed exchange:symbol
+  private ticksSent: Map<string, number> = new Map(); // Ticks since subscribe/recover, for stalling
+
+  constructor(options: SimulatorOptions = {}) {
+    this.tickers = new Map(Object.entries(options.tickers ?? DEFAULT_TICKERS));
+    this.script = new Map(Object.entries(options.script ?? {}));
+    this.intervalMs = options.intervalMs ?? 1000;
+    this.volatility = options.volatility ?? 0.001;
+    this.seed = options.seed ?? 42;
+    this.stallAfterTicks = options.stallAfterTicks ?? 0;
+  }
+
+  // Nothing to launch
+  async initialize(): Promise<void> {}
+
+  async validateTicker(symbol: string, exchange: string): Promise<boolean> {
+    return this.tickers.has(symbol) && EXCHANGES.includes(exchange);
+  }
+
+  // The simulated tickers, listed on every exchange
+  async listSymbols(exchange: string): Promise<ListedSymbol[]> {
+    if (!EXCHANGES.includes(exchange)) return [];
+    return Array.from(this.tickers.keys(), symbol => ({ symbol, exchange, description: "Simulated" }));
+  }
+
+  async subscribeToTicker(
+    symbol: string,
+    exchange: string,
+    onPrice: PriceCallback,
+    onError?: ErrorCallback
+  ): Promise<void> {
+    const key = tickerKey(exchange, symbol);
+    if (this.timers.has(key)) {
+      console.log(`Already subscribed to ${key}`);
+      await this.unsubscribeFromTicker(symbol, exchange); // ensures clean slate
+      return;
+    }
+
+    const start = this.tickers.get(symbol);
+    if (start === undefined) {
+      onError?.(symbol, `Unknown simulated ticker ${symbol}`);
+      return;
+    }
+
+    // Each ticker gets its own stream of randomness, derived from the seed and exchange:symbol
+    const random = createRandom(this.seed + hashSymbol(key));
+    const scripted = [...(this.script.get(symbol) ?? [])];
+    const places = decimalPlaces(start);
+    let value = Number(start);
+
+    // Daily stats: the starting price is the day's open; volume and spread get their own
+    // randomness so adding them doesn't change the seeded price walk
+    const volumeRandom = createRandom(this.seed + hashSymbol(key) + 1);
+    const tickSize = 10 ** -places;
+    let volume = 0;
+    let dayHigh = start;
+    let dayLow = start;
+
+    this.ticksSent.set(key, 0);
+    const tick = () => {
+      const sent = this.ticksSent.get(key) ?? 0;
+      if (this.stallAfterTicks > 0 && sent >= this.stallAfterTicks) return; // simulated stall
+      this.ticksSent.set(key, sent + 1);
+
+      const next = scripted.shift();
+      let price: string;
+      if (next !== undefined) {
+        price = next;
+        value = Number(next);
+      } else {
+        value = value * (1 + (random() * 2 - 1) * this.volatility);
+        price = formatDecimal(value, places);
+      }
+      if (compareDecimals(price, dayHigh) > 0) dayHigh = price;
+      if (compareDecimals(price, dayLow) < 0) dayLow = price;
+      volume += volumeRandom() * 1000;
+      const spread = Math.ceil(volumeRandom() * 3) * tickSize;
+      console.log(`[SIMULATED] ${key} → ${price}`);
+      onPrice(price, {
+        change: formatDecimal(value - Number(start), places),
+        changePercent: formatDecimal(((value - Number(start)) / Number(start)) * 100, 2),
+        volume: formatDecimal(volume, 2),
+        dayHigh,
+        dayLow,
+        bid: formatDecimal(value - spread, places),
+        ask: formatDecimal(value + spread, places),
+      });
+    };
+
+    tick(); // send the initial value once
+    this.timers.set(key, setInterval(tick, this.intervalMs));
+    console.log(`Subscribed to simulated updates for ${key}`);
+  }
+
+  // A stalled simulated feed resumes after recovery
+  async recoverTicker(symbol: string, exchange: string): Promise<void> {
+    const key = tickerKey(exchange, symbol);
+    if (!this.timers.has(key)) {
+      throw new Error(`Not subscribed to ${key}`);
+    }
+    this.ticksSent.set(key, 0);
+    console.log(`Recovered simulated feed for ${key}`);
+  }
+
+  async unsubscribeFromTicker(symbol: string, exchange: string): Promise<void> {
+    const key = tickerKey(exchange, symbol);
+    const timer = this.timers.get(key);
+    this.ticksSent.delete(key);
+    if (timer) {
+      clearInterval(timer);
+      this.timers.delete(key);
+      console.log(`Stopped simulated feed for ${key}`);
+    } else {
+      console.log(`No simulated feed to stop for ${key}`);
+    }
+  }
+
+  // One simulated feed per subscribed ticker stands in for a page
+  openPages(): number {
+    return this.timers.size;
+  }
+
+  health(): SourceComponent[] {
+    return [{ name: "simulator", ok: true, detail: `${this.timers.size} simulated feeds` }];
+  }
+
+  async close(): Promise<void> {
+    for (const timer of this.timers.values()) {
+      clearInterval(timer);
+    }
+    this.timers.clear();
+    this.ticksSent.clear();
+  }
+}
+
+// Parse "BTCUSDT:65000.00,SHIBUSDT:0.00002450" into a ticker -> starting price map
+export function parseSimulatedTickers(value: string): Record<string, string> {
+  const tickers: Record<string, string> = {};
+  for (const entry of value.split(",")) {
+    const [symbol, price] = entry.split(":").map((part) => part.trim());
+    if (!symbol) continue;
+    if (!price || !isDecimal(price) || Number(price) <= 0) {
+      throw new Error(`Invalid simulated ticker "${entry}", expected SYMBOL:PRICE`);
+    }
+    tickers[symbol.toUpperCase()] = price;
+  }
+  return tickers;
+}
+
+function hashSymbol(symbol: string): number {
+  let hash = 0;
+  for (let i = 0; i < symbol.length; i++) {
+    hash = (Math.imul(hash, 31) + symbol.charCodeAt(i)) | 0;
+  }
+  return hash;
+}
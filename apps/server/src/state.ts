@@ -0,0 +1,126 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// A tracked ticker as saved across restarts
+export interface SavedTicker {
+  symbol: string;
+  exchange: string;
+  addedAt: string; // ISO 8601
+  addedBy?: string; // API key name, absent when auth is disabled
+}
+
+// An alert rule as saved across restarts
+export interface SavedAlert {
+  id: string;
+  symbol: string;
+  exchange: string;
+  type: number; // AlertType
+  threshold: number;
+  windowSeconds: number;
+  createdAt: number;
+  lastTriggeredAt: number;
+  createdBy?: string; // API key name, absent when auth is disabled
+}
+
+// A named watchlist as saved across restarts
+export interface SavedWatchlist {
+  id: string;
+  name: string;
+  owner: string;
+  isDefault: boolean;
+  tickers: string[]; // exchange:symbol keys
+  createdAt: number;
+}
+
+export interface ServerState {
+  tickers: SavedTicker[];
+  alerts: SavedAlert[];
+  watchlists: SavedWatchlist[];
+}
+
+// Server state kept in a local JSON file. Writes go to a temp file that is renamed into
+// place, so a crash mid-write never leaves a corrupt state file behind.
+export class StateStore {
+  private pending: ServerState | null = null;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private file: string) {}
+
+  // Missing file means first start; a corrupt file is reported and ignored
+  async load(): Promise<ServerState> {
+    try {
+      const state = JSON.parse(await fs.readFile(this.file, "utf8"));
+      return {
+        tickers: Array.isArray(state.tickers) ? state.tickers.filter(isSavedTicker) : [],
+        alerts: Array.isArray(state.alerts) ? state.alerts.filter(isSavedAlert) : [],
+        watchlists: Array.isArray(state.watchlists) ? state.watchlists.filter(isSavedWatchlist) : [],
+      };
+    } catch (err: any) {
+      if (err.code !== "ENOENT") {
+        console.error(`Could not read state file ${this.file}, starting empty:`, err);
+      }
+      return { tickers: [], alerts: [], watchlists: [] };
+    }
+  }
+
+  // Queue a write; if several saves happen while one is in flight, only the latest is written
+  save(state: ServerState): Promise<void> {
+    const alreadyQueued = this.pending !== null;
+    this.pending = state;
+    if (alreadyQueued) return this.writing;
+
+    this.writing = this.writing.then(async () => {
+      const latest = this.pending!;
+      this.pending = null;
+      try {
+        await fs.mkdir(path.dirname(this.file), { recursive: true });
+        const tmp = `${this.file}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(latest, null, 2));
+        await fs.rename(tmp, this.file);
+      } catch (err) {
+        console.error(`Failed to save state to ${this.file}:`, err);
+      }
+    });
+    return this.writing;
+  }
+
+  // Wait for queued writes to finish
+  async flush(): Promise<void> {
+    await this.writing;
+  }
+}
+
+function isSavedTicker(value: any): value is SavedTicker {
+  return (
+    typeof value?.symbol === "string" &&
+    typeof value?.exchange === "string" &&
+    typeof value?.addedAt === "string" &&
+    (value?.addedBy === undefined || typeof value.addedBy === "string")
+  );
+}
+
+function isSavedAlert(value: any): value is SavedAlert {
+  return (
+    typeof value?.id === "string" &&
+    typeof value?.symbol === "string" &&
+    typeof value?.exchange === "string" &&
+    typeof value?.type === "number" &&
+    typeof value?.threshold === "number" &&
+    typeof value?.windowSeconds === "number" &&
+    typeof value?.createdAt === "number" &&
+    typeof value?.lastTriggeredAt === "number" &&
+    (value?.createdBy === undefined || typeof value.createdBy === "string")
+  );
+}
+
+function isSavedWatchlist(value: any): value is SavedWatchlist {
+  return (
+    typeof value?.id === "string" &&
+    typeof value?.name === "string" &&
+    typeof value?.owner === "string" &&
+    typeof value?.isDefault === "boolean" &&
+    Array.isArray(value?.tickers) &&
+    value.tickers.every((key: unknown) => typeof key === "string") &&
+    typeof value?.createdAt === "number"
+  );
+}
@@ -0,0 +1,193 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { ListedSymbol, SYMBOL_PATTERN, tickerKey } from "./priceSource";
+
+export interface SymbolCatalogOptions {
+  bundledFile: string; // shipped with the server, used until the first refresh succeeds
+  cacheFile?: string; // last refreshed catalog, preferred over the bundled one; omitted: memory only
+}
+
+// Validation results kept before expired ones are swept out
+const MAX_CACHED_VALIDATIONS = 10_000;
+
+// Both files hold { "updatedAt": <ms since epoch, 0 for the bundled file>, "symbols": [ListedSymbol] }
+interface CatalogFile {
+  updatedAt: number;
+  symbols: ListedSymbol[];
+}
+
+interface CatalogEntry extends ListedSymbol {
+  compact: string; // symbol without separators, so "btc/usdt" finds BTCUSDT
+  words: string; // upper-cased description
+}
+
+// Symbols clients can pick from when adding a ticker. Searching is purely local, so it works
+// offline and costs no page loads; the catalog is refreshed from the price source now and then.
+export class SymbolCatalog {
+  private entries: CatalogEntry[] = [];
+  private updated = 0;
+
+  constructor(private options: SymbolCatalogOptions) {}
+
+  // When the catalog was last refreshed (ms since epoch); 0 while it is the bundled one
+  get updatedAt(): number {
+    return this.updated;
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  async load(): Promise<void> {
+    for (const file of [this.options.cacheFile, this.options.bundledFile]) {
+      if (!file) continue;
+      const catalog = await readCatalog(file);
+      if (!catalog) continue;
+      this.replace(catalog);
+      console.log(`Loaded ${this.entries.length} symbols from ${file}`);
+      return;
+    }
+    console.warn("No symbol catalog found; symbol search finds nothing until it is refreshed");
+  }
+
+  // Fetch every exchange again and save the result. An exchange that fails keeps its old symbols;
+  // if all of them fail the catalog is left alone, age included, so the next refresh retries.
+  async refresh(exchanges: string[], list: (exchange: string) => Promise<ListedSymbol[]>): Promise<void> {
+    const symbols: ListedSymbol[] = [];
+    let failed = 0;
+    for (const exchange of exchanges) {
+      try {
+        symbols.push(...(await list(exchange)));
+      } catch (err: any) {
+        failed++;
+        console.error(`Could not refresh symbols for ${exchange}: ${err.message}`);
+        symbols.push(...this.entries.filter(entry => entry.exchange === exchange));
+      }
+    }
+    if (failed === exchanges.length) return;
+
+    this.replace({ updatedAt: Date.now(), symbols });
+    console.log(`Symbol catalog refreshed: ${this.entries.length} symbols`);
+    if (!this.options.cacheFile) return;
+    try {
+      await writeCatalog(this.options.cacheFile, {
+        updatedAt: this.updated,
+        symbols: this.entries.map(({ symbol, exchange, description }) => ({ symbol, exchange, description })),
+      });
+    } catch (err) {
+      console.error(`Could not save symbol catalog to ${this.options.cacheFile}:`, err);
+    }
+  }
+
+  // Best matches first: exact symbol, symbol prefix, symbol substring, then description words.
+  // Shorter symbols and descriptions win ties, so "BTC" lists BTCUSD before BTCUSDC and
+  // "ethereum" lists Ethereum pairs before Ethereum Classic ones.
+  search(query: string, exchange: string, limit: number): ListedSymbol[] {
+    const words = query.trim().toUpperCase();
+    const compact = words.replace(/[^A-Z0-9]/g, "");
+    if (!compact) return [];
+
+    const ranked: { entry: CatalogEntry; rank: number }[] = [];
+    for (const entry of this.entries) {
+      if (exchange && entry.exchange !== exchange) continue;
+      const rank = entry.compact === compact ? 0
+        : entry.compact.startsWith(compact) ? 1
+        : entry.compact.includes(compact) ? 2
+        : entry.words.includes(words) ? 3
+        : -1;
+      if (rank >= 0) ranked.push({ entry, rank });
+    }
+
+    ranked.sort((a, b) =>
+      a.rank - b.rank ||
+      a.entry.symbol.length - b.entry.symbol.length ||
+      a.entry.description.length - b.entry.description.length ||
+      a.entry.symbol.localeCompare(b.entry.symbol) ||
+      a.entry.exchange.localeCompare(b.entry.exchange)
+    );
+    return ranked.slice(0, limit).map(({ entry }) => ({
+      symbol: entry.symbol,
+      exchange: entry.exchange,
+      description: entry.description,
+    }));
+  }
+
+  // Drops malformed entries and duplicates (same exchange:symbol)
+  private replace(catalog: CatalogFile): void {
+    const seen = new Set<string>();
+    this.entries = [];
+    for (const symbol of catalog.symbols) {
+      if (!isListedSymbol(symbol)) continue;
+      const key = tickerKey(symbol.exchange, symbol.symbol);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      this.entries.push({
+        symbol: symbol.symbol,
+        exchange: symbol.exchange,
+        description: symbol.description,
+        compact: symbol.symbol.replace(/[^A-Z0-9]/g, ""),
+        words: symbol.description.toUpperCase(),
+      });
+    }
+    this.updated = catalog.updatedAt;
+  }
+}
+
+// Remembers validateTicker results for a while, so re-adding a ticker that was just removed, or
+// retrying a typo, doesn't cost another full page load
+export class ValidationCache {
+  private results = new Map<string, { valid: boolean; expires: number }>();
+
+  constructor(private ttlMs: number) {}
+
+  // The cached result for an exchange:symbol key, or undefined if there is none or it expired
+  get(key: string, now = Date.now()): boolean | undefined {
+    const result = this.results.get(key);
+    if (!result) return undefined;
+    if (result.expires <= now) {
+      this.results.delete(key);
+      return undefined;
+    }
+    return result.valid;
+  }
+
+  set(key: string, valid: boolean, now = Date.now()): void {
+    if (this.results.size >= MAX_CACHED_VALIDATIONS) {
+      for (const [cached, result] of this.results) {
+        if (result.expires <= now) this.results.delete(cached);
+      }
+    }
+    this.results.set(key, { valid, expires: now + this.ttlMs });
+  }
+}
+
+// Missing file is normal (no refresh yet); a corrupt one is reported and skipped
+async function readCatalog(file: string): Promise<CatalogFile | null> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(file, "utf8"));
+    if (!Array.isArray(parsed?.symbols)) throw new Error("expected a \"symbols\" list");
+    return { updatedAt: typeof parsed.updatedAt === "number" ? parsed.updatedAt : 0, symbols: parsed.symbols };
+  } catch (err: any) {
+    if (err.code !== "ENOENT") {
+      console.error(`Could not read symbol catalog ${file}: ${err.message}`);
+    }
+    return null;
+  }
+}
+
+// Written to a temp file and renamed into place, like the state file
+async function writeCatalog(file: string, catalog: CatalogFile): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(catalog));
+  await fs.rename(tmp, file);
+}
+
+function isListedSymbol(value: any): value is ListedSymbol {
+  return (
+    typeof value === "object" && value !== null &&
+    typeof value.symbol === "string" && SYMBOL_PATTERN.test(value.symbol) &&
+    typeof value.exchange === "string" && value.exchange !== "" &&
+    typeof value.description === "string"
+  );
+}
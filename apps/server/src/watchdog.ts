@@ -0,0 +1,110 @@
+import { TickerStatus } from "../../../packages/tradingview-gen/proto/crypto-stream_pb";
+
+export interface WatchdogOptions {
+  // Silence after which a feed is considered stale and recovery starts
+  staleAfterMs: number;
+  // Recovery attempts before giving up on a feed
+  maxRecoveries: number;
+  // How often feeds are checked
+  checkIntervalMs?: number;
+}
+
+export interface WatchdogHooks {
+  // Reload / re-attach the feed; throws if it could not be re-attached
+  recover: (key: string) => Promise<void>;
+  // Health changed (live/stale/recovering)
+  onStatus: (key: string, status: TickerStatus) => void;
+  // Recovery kept failing; the feed should be torn down
+  onFailed: (key: string, reason: string) => void;
+}
+
+interface WatchedFeed {
+  lastTick: number;
+  windowStart: number; // last tick or end of the last recovery, whichever is later
+  status: TickerStatus;
+  attempts: number; // recoveries since the last tick
+  recovering: boolean; // a recover() call is in flight
+}
+
+// Watches per-ticker tick times. A feed that goes silent is marked stale, then reloaded;
+// if it stays silent after each reload it's retried up to maxRecoveries times before failing.
+export class FeedWatchdog {
+  private feeds: Map<string, WatchedFeed> = new Map();
+  private timer: NodeJS.Timeout;
+
+  constructor(private options: WatchdogOptions, private hooks: WatchdogHooks) {
+    this.timer = setInterval(() => this.check(Date.now()), options.checkIntervalMs ?? 1000);
+    this.timer.unref();
+  }
+
+  // Start watching a feed; the silence clock starts now
+  watch(key: string): void {
+    const now = Date.now();
+    this.feeds.set(key, { lastTick: now, windowStart: now, status: TickerStatus.LIVE, attempts: 0, recovering: false });
+  }
+
+  unwatch(key: string): void {
+    this.feeds.delete(key);
+  }
+
+  status(key: string): TickerStatus | undefined {
+    return this.feeds.get(key)?.status;
+  }
+
+  // A tick proves the feed is alive again
+  recordTick(key: string, timestamp: number): void {
+    const feed = this.feeds.get(key);
+    if (!feed) return;
+
+    feed.lastTick = timestamp;
+    feed.windowStart = timestamp;
+    feed.attempts = 0;
+    if (feed.status !== TickerStatus.LIVE) {
+      console.log(`Feed for ${key} is live again`);
+      this.setStatus(key, feed, TickerStatus.LIVE);
+    }
+  }
+
+  check(now: number): void {
+    for (const [key, feed] of this.feeds) {
+      if (feed.recovering || now - feed.windowStart < this.options.staleAfterMs) continue;
+
+      if (feed.attempts >= this.options.maxRecoveries) {
+        this.feeds.delete(key);
+        const silentSeconds = Math.round((now - feed.lastTick) / 1000);
+        this.hooks.onFailed(key, `No price updates for ${silentSeconds}s after ${feed.attempts} recovery attempts`);
+        continue;
+      }
+
+      if (feed.status === TickerStatus.LIVE) {
+        console.warn(`Feed for ${key} is stale (no tick for ${Math.round((now - feed.lastTick) / 1000)}s)`);
+        this.setStatus(key, feed, TickerStatus.STALE);
+      }
+      this.startRecovery(key, feed);
+    }
+  }
+
+  close(): void {
+    clearInterval(this.timer);
+  }
+
+  private startRecovery(key: string, feed: WatchedFeed): void {
+    feed.attempts++;
+    feed.recovering = true;
+    this.setStatus(key, feed, TickerStatus.RECOVERING);
+    console.log(`Recovering feed for ${key} (attempt ${feed.attempts}/${this.options.maxRecoveries})`);
+
+    this.hooks.recover(key)
+      .catch(err => console.error(`Recovery attempt ${feed.attempts} for ${key} failed:`, err))
+      .finally(() => {
+        // give the reloaded page a full silence window to produce a tick
+        feed.recovering = false;
+        feed.windowStart = Date.now();
+      });
+  }
+
+  private setStatus(key: string, feed: WatchedFeed, status: TickerStatus): void {
+    feed.status = status;
+    this.hooks.onStatus(key, status);
+  }
+}
@@ -0,0 +1,90 @@
+import { Code, ConnectError } from "@connectrpc/connect";
+import { DEFAULT_EXCHANGE, SYMBOL_PATTERN, normalizeTicker } from "./priceSource";
+
+export type WatchlistFileFormat = "json" | "csv";
+
+// A watchlist as shared between teams. Export writes
+//   JSON  {"name": "Majors", "tickers": [{"symbol": "BTCUSDT", "exchange": "BINANCE"}, ...]}
+//   CSV   a "symbol,exchange" header, then one ticker per line
+// Import is more forgiving: JSON tickers may also be "EXCHANGE:SYMBOL" strings, and CSV may leave
+// out the header or the exchange column. A missing exchange means BINANCE.
+export interface WatchlistFile {
+  name: string; // empty for CSV, which has no place for it
+  tickers: { symbol: string; exchange: string }[];
+}
+
+export function formatWatchlistFile(file: WatchlistFile, format: WatchlistFileFormat): string {
+  if (format === "csv") {
+    return ["symbol,exchange", ...file.tickers.map(t => `${t.symbol},${t.exchange}`)].join("\n") + "\n";
+  }
+  return JSON.stringify(file, null, 2) + "\n";
+}
+
+// Throws INVALID_ARGUMENT naming the first problem (with its line for CSV)
+export function parseWatchlistFile(content: string, format: WatchlistFileFormat): WatchlistFile {
+  const file = format === "csv" ? parseCsv(content) : parseJson(content);
+  if (file.tickers.length === 0) {
+    throw invalid("The file lists no tickers");
+  }
+  return file;
+}
+
+export function watchlistFileName(name: string, format: WatchlistFileFormat): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "watchlist";
+  return `${base}.${format}`;
+}
+
+function parseJson(content: string): WatchlistFile {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch (err: any) {
+    throw invalid(`Not valid JSON: ${err.message}`);
+  }
+  if (typeof parsed !== "object" || parsed === null || !Array.isArray(parsed.tickers)) {
+    throw invalid(`Expected a JSON object with a "tickers" list`);
+  }
+
+  const tickers = parsed.tickers.map((entry: unknown, i: number) => {
+    if (typeof entry === "string") {
+      const [exchange, symbol] = entry.includes(":") ? entry.split(":", 2) : [DEFAULT_EXCHANGE, entry];
+      return ticker(symbol, exchange, `tickers[${i}]`);
+    }
+    if (typeof entry === "object" && entry !== null) {
+      const { symbol, ticker: alias, exchange } = entry as Record<string, unknown>;
+      const name = typeof symbol === "string" ? symbol : alias;
+      if (typeof name === "string" && (exchange === undefined || typeof exchange === "string")) {
+        return ticker(name, exchange ?? "", `tickers[${i}]`);
+      }
+    }
+    throw invalid(`tickers[${i}]: expected "EXCHANGE:SYMBOL" or {"symbol", "exchange"}`);
+  });
+  return { name: typeof parsed.name === "string" ? parsed.name.trim() : "", tickers };
+}
+
+function parseCsv(content: string): WatchlistFile {
+  const tickers: WatchlistFile["tickers"] = [];
+  const lines = content.split(/\r?\n/);
+  lines.forEach((line, i) => {
+    const cells = line.split(",").map(cell => cell.trim().replace(/^"(.*)"$/, "$1"));
+    if (cells.every(cell => cell === "")) return;
+    if (i === 0 && cells[0].toLowerCase() === "symbol") return; // header
+    if (cells.length > 2) {
+      throw invalid(`Line ${i + 1}: expected "symbol,exchange"`);
+    }
+    tickers.push(ticker(cells[0], cells[1] ?? "", `Line ${i + 1}`));
+  });
+  return { name: "", tickers };
+}
+
+function ticker(symbol: string, exchange: string, where: string): { symbol: string; exchange: string } {
+  const normalized = normalizeTicker(symbol, exchange);
+  if (!SYMBOL_PATTERN.test(normalized.symbol)) {
+    throw invalid(`${where}: "${symbol}" is not a ticker symbol`);
+  }
+  return normalized;
+}
+
+function invalid(message: string): ConnectError {
+  return new ConnectError(message, Code.InvalidArgument);
+}
@@ -0,0 +1,142 @@
+import { randomUUID } from "crypto";
+import { SavedWatchlist } from "./state";
+
+export interface WatchlistData {
+  id: string;
+  name: string;
+  owner: string; // API key name, or "session:<id>" for browsers when auth is disabled
+  isDefault: boolean;
+  tickers: Set<string>; // exchange:symbol keys
+  createdAt: number;
+}
+
+const MAX_NAME_LENGTH = 64;
+const DEFAULT_NAME = "Default";
+
+// Owner used for callers that neither authenticate nor send a session id
+export const ANONYMOUS_OWNER = "anonymous";
+
+// Browsers without an API key identify themselves with a random id kept in local storage
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+export function sessionOwner(sessionId: string | null): string {
+  return sessionId && SESSION_ID_PATTERN.test(sessionId) ? `session:${sessionId}` : ANONYMOUS_OWNER;
+}
+
+// Named watchlists per owner. A ticker is tracked while at least one watchlist includes it;
+// the store keeps a reference count per ticker so callers know when the last one lets go.
+export class WatchlistStore {
+  private watchlists: Map<string, WatchlistData> = new Map();
+  private refCounts: Map<string, number> = new Map(); // exchange:symbol -> watchlists including it
+
+  // Returns an error message if the owner can't have a watchlist with this name
+  validateName(owner: string, name: string): string | null {
+    const trimmed = name.trim();
+    if (!trimmed) return "Watchlist name is required";
+    if (trimmed.length > MAX_NAME_LENGTH) return `Watchlist name must be at most ${MAX_NAME_LENGTH} characters`;
+    if (this.list(owner).some(watchlist => watchlist.name.toLowerCase() === trimmed.toLowerCase())) {
+      return `You already have a watchlist named "${trimmed}"`;
+    }
+    return null;
+  }
+
+  create(owner: string, name: string, isDefault = false): WatchlistData {
+    const watchlist: WatchlistData = {
+      id: randomUUID(),
+      name: name.trim(),
+      owner,
+      isDefault,
+      tickers: new Set(),
+      createdAt: Date.now(),
+    };
+    this.watchlists.set(watchlist.id, watchlist);
+    return watchlist;
+  }
+
+  // Restore a saved watchlist
+  add(saved: SavedWatchlist): void {
+    const watchlist: WatchlistData = { ...saved, tickers: new Set() };
+    this.watchlists.set(watchlist.id, watchlist);
+    for (const key of saved.tickers) {
+      this.addTicker(watchlist, key);
+    }
+  }
+
+  get(id: string): WatchlistData | undefined {
+    return this.watchlists.get(id);
+  }
+
+  // The watchlist used when a request names none, created on first use
+  defaultFor(owner: string): WatchlistData {
+    for (const watchlist of this.watchlists.values()) {
+      if (watchlist.owner === owner && watchlist.isDefault) return watchlist;
+    }
+    return this.create(owner, DEFAULT_NAME, true);
+  }
+
+  // An owner's watchlists, default first, then by creation time
+  list(owner: string): WatchlistData[] {
+    return Array.from(this.watchlists.values())
+      .filter(watchlist => watchlist.owner === owner)
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.createdAt - b.createdAt);
+  }
+
+  all(): WatchlistData[] {
+    return Array.from(this.watchlists.values());
+  }
+
+  // Returns the tickers no watchlist includes any more
+  delete(id: string): string[] {
+    const watchlist = this.watchlists.get(id);
+    if (!watchlist) return [];
+
+    this.watchlists.delete(id);
+    const released: string[] = [];
+    for (const key of watchlist.tickers) {
+      if (this.release(key)) released.push(key);
+    }
+    return released;
+  }
+
+  // Returns false if the watchlist already includes the ticker
+  addTicker(watchlist: WatchlistData, key: string): boolean {
+    if (watchlist.tickers.has(key)) return false;
+    watchlist.tickers.add(key);
+    this.refCounts.set(key, this.refCount(key) + 1);
+    return true;
+  }
+
+  // Returns true if this was the last watchlist including the ticker
+  removeTicker(watchlist: WatchlistData, key: string): boolean {
+    if (!watchlist.tickers.delete(key)) return false;
+    return this.release(key);
+  }
+
+  // Drop a ticker from every watchlist (its feed failed); returns the watchlists that had it
+  removeEverywhere(key: string): WatchlistData[] {
+    const affected = Array.from(this.watchlists.values()).filter(watchlist => watchlist.tickers.delete(key));
+    this.refCounts.delete(key);
+    return affected;
+  }
+
+  refCount(key: string): number {
+    return this.refCounts.get(key) ?? 0;
+  }
+
+  // Empty default watchlists are recreated on demand, so they aren't worth saving
+  toSaved(): SavedWatchlist[] {
+    return Array.from(this.watchlists.values())
+      .filter(watchlist => !(watchlist.isDefault && watchlist.tickers.size === 0))
+      .map(watchlist => ({ ...watchlist, tickers: Array.from(watchlist.tickers) }));
+  }
+
+  private release(key: string): boolean {
+    const count = this.refCount(key) - 1;
+    if (count > 0) {
+      this.refCounts.set(key, count);
+      return false;
+    }
+    this.refCounts.delete(key);
+    return true;
+  }
+}
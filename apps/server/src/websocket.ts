@@ -0,0 +1,260 @@
+import { IncomingMessage, Server } from "http";
+import { Duplex } from "stream";
+import { randomUUID } from "crypto";
+import { WebSocket, WebSocketServer } from "ws";
+import { ConnectError, PromiseClient, Transport, createPromiseClient } from "@connectrpc/connect";
+import { CryptoStreamService } from "../../../packages/tradingview-gen/proto/crypto-stream_connect";
+import { PriceUpdate } from "../../../packages/tradingview-gen/proto/crypto-stream_pb";
+import { codeName, forwardedHeaders, httpStatus } from "./gateway";
+
+// WebSocket feed for bots and other long-lived consumers, exchange-style:
+//
+// Client -> server (JSON text frames; "id" is optional and echoed in the reply)
+//   {"type": "subscribe", "tickers": ["BTCUSDT", "KRAKEN:ETHUSD"], "id": "1"}
+//   {"type": "unsubscribe", "tickers": ["BTCUSDT"], "id": "2"}
+//   {"type": "ping", "id": "3"}
+//
+// Server -> client
+//   {"type": "welcome", "heartbeatMs": 30000}
+//   {"type": "subscribed" | "unsubscribed", "id": "1", "tickers": [every current subscription]}
+//   {"type": "price", ...PriceUpdate JSON}    new price (with status and quote)
+//   {"type": "status", ...PriceUpdate JSON}   feed status changed, price is empty
+//   {"type": "removed", ...PriceUpdate JSON}  ticker left the watchlist or its feed failed
+//   {"type": "shutdown", ...PriceUpdate JSON} server is shutting down; the socket closes with 1001 next
+//   {"type": "heartbeat", "timestamp": 1700000000000}
+//   {"type": "pong", "id": "3", "timestamp": 1700000000000}
+//   {"type": "error", "id": "1", "code": "invalid_argument", "message": "..."}
+//
+// A plain ticker matches every exchange, "EXCHANGE:SYMBOL" just one. Only tickers in the
+// connection's watchlist (?watchlist=<id>, default: the caller's default watchlist) are delivered.
+// Each connection is a StreamPrices call over the in-process transport whose filter follows the
+// subscriptions, so updates come from the same broadcast as every other stream.
+
+export interface WebSocketOptions {
+  path: string;
+  heartbeatMs: number; // ping interval; a connection that misses a pong is dropped
+}
+
+const MAX_MESSAGE_BYTES = 64 * 1024;
+// Unsent bytes a connection may pile up before its stream stops pulling updates (which then conflate)
+const MAX_BUFFERED_BYTES = 64 * 1024;
+
+export class PriceWebSocketServer {
+  private wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+  private client: PromiseClient<typeof CryptoStreamService>;
+  private heartbeat: NodeJS.Timeout;
+  private connections = new Set<Connection>();
+
+  constructor(server: Server, transport: Transport, private options: WebSocketOptions) {
+    this.client = createPromiseClient(CryptoStreamService, transport);
+    server.on("upgrade", (req, socket, head) => this.upgrade(req, socket, head));
+
+    this.heartbeat = setInterval(() => {
+      for (const connection of this.connections) connection.heartbeat();
+    }, options.heartbeatMs);
+    this.heartbeat.unref();
+  }
+
+  close(): void {
+    clearInterval(this.heartbeat);
+    for (const connection of this.connections) connection.close(1001, "Server shutting down");
+    this.wss.close();
+  }
+
+  // Check the caller may read the watchlist before accepting, so auth problems get a proper HTTP status
+  private async upgrade(req: IncomingMessage, socket: Duplex, head: Buffer): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== this.options.path) {
+      socket.destroy();
+      return;
+    }
+
+    const headers = forwardedHeaders(req);
+    const session = url.searchParams.get("session");
+    if (session && !headers.has("x-session-id")) headers.set("x-session-id", session); // browsers can't set headers
+    const watchlistId = url.searchParams.get("watchlist") ?? "";
+
+    try {
+      await this.client.getActiveTickers({ watchlistId }, { headers });
+    } catch (err) {
+      const connectErr = ConnectError.from(err);
+      const body = JSON.stringify({ code: codeName(connectErr.code), message: connectErr.rawMessage });
+      socket.end(
+        `HTTP/1.1 ${httpStatus(connectErr.code)} ${codeName(connectErr.code)}\r\n` +
+        `Content-Type: application/json\r\nContent-Length: ${Buffer.byteLength(body)}\r\nConnection: close\r\n\r\n${body}`
+      );
+      return;
+    }
+
+    this.wss.handleUpgrade(req, socket, head, ws => {
+      const connection = new Connection(ws, this.client, headers, watchlistId);
+      this.connections.add(connection);
+      ws.on("close", () => {
+        this.connections.delete(connection);
+        connection.stop();
+        console.log(`WebSocket client disconnected (${this.connections.size} open)`);
+      });
+      connection.send({ type: "welcome", heartbeatMs: this.options.heartbeatMs });
+      console.log(`WebSocket client connected (${this.connections.size} open)`);
+    });
+  }
+}
+
+// One WebSocket and the StreamPrices call behind it
+class Connection {
+  private subscriptions = new Set<string>();
+  private stream: { id: string; abort: AbortController } | null = null;
+  private queue: Promise<void> = Promise.resolve(); // messages are handled one at a time
+  private alive = true;
+
+  constructor(
+    private ws: WebSocket,
+    private client: PromiseClient<typeof CryptoStreamService>,
+    private headers: Headers,
+    private watchlistId: string
+  ) {
+    ws.on("pong", () => (this.alive = true));
+    ws.on("message", (data, isBinary) => {
+      this.queue = this.queue.then(() => this.handle(isBinary ? null : data.toString()));
+    });
+  }
+
+  send(message: object): void {
+    if (this.ws.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+    }
+  }
+
+  // Like send, but resolves once the message is written out (or the socket is gone)
+  private sendAndFlush(message: object): Promise<void> {
+    return new Promise(resolve => {
+      if (this.ws.readyState !== WebSocket.OPEN) return resolve();
+      this.ws.send(JSON.stringify(message), () => resolve());
+    });
+  }
+
+  heartbeat(): void {
+    if (!this.alive) {
+      this.ws.terminate(); // no pong since the last ping
+      return;
+    }
+    this.alive = false;
+    this.ws.ping();
+    this.send({ type: "heartbeat", timestamp: Date.now() });
+  }
+
+  close(code: number, reason: string): void {
+    this.stop();
+    this.ws.close(code, reason);
+  }
+
+  stop(): void {
+    this.stream?.abort.abort();
+    this.stream = null;
+  }
+
+  private async handle(text: string | null): Promise<void> {
+    let message: any;
+    try {
+      message = text === null ? null : JSON.parse(text);
+    } catch {
+      message = null;
+    }
+    if (typeof message !== "object" || message === null) {
+      this.send({ type: "error", code: "invalid_argument", message: "Messages must be JSON objects" });
+      return;
+    }
+    const id = typeof message.id === "string" ? message.id : undefined;
+
+    switch (message.type) {
+      case "ping":
+        this.send({ type: "pong", id, timestamp: Date.now() });
+        return;
+      case "subscribe":
+      case "unsubscribe": {
+        const tickers = parseTickers(message.tickers);
+        if (!tickers) {
+          this.send({ type: "error", id, code: "invalid_argument", message: `"tickers" must be a non-empty list of symbols` });
+          return;
+        }
+        for (const ticker of tickers) {
+          if (message.type === "subscribe") this.subscriptions.add(ticker);
+          else this.subscriptions.delete(ticker);
+        }
+        try {
+          await this.applySubscriptions();
+        } catch (err) {
+          const connectErr = ConnectError.from(err);
+          this.send({ type: "error", id, code: codeName(connectErr.code), message: connectErr.rawMessage });
+          return;
+        }
+        this.send({ type: `${message.type}d`, id, tickers: Array.from(this.subscriptions).sort() });
+        return;
+      }
+      default:
+        this.send({ type: "error", id, code: "invalid_argument", message: `Unknown message type "${message.type}"` });
+    }
+  }
+
+  // An empty StreamPrices filter means everything, so no subscriptions means no stream
+  private async applySubscriptions(): Promise<void> {
+    if (this.subscriptions.size === 0) {
+      this.stop();
+      return;
+    }
+    if (this.stream) {
+      const response = await this.client.updateStreamFilter(
+        { streamId: this.stream.id, tickers: Array.from(this.subscriptions) },
+        { headers: this.headers }
+      );
+      if (response.success) return;
+      // the stream hasn't registered yet (or just ended): start over with the full set
+      this.stop();
+    }
+    this.start();
+  }
+
+  private start(): void {
+    const stream = { id: randomUUID(), abort: new AbortController() };
+    this.stream = stream;
+
+    const updates = this.client.streamPrices(
+      { streamId: stream.id, tickers: Array.from(this.subscriptions), watchlistId: this.watchlistId },
+      { headers: this.headers, signal: stream.abort.signal }
+    );
+    let shutdown = false;
+    (async () => {
+      for await (const update of updates) {
+        shutdown ||= update.shutdown;
+        const sent = this.sendAndFlush({ type: eventType(update), ...(update.toJson() as object) });
+        // a slow or stalled socket: wait for it before taking the next update off the channel
+        if (this.ws.bufferedAmount > MAX_BUFFERED_BYTES) await sent;
+      }
+    })().then(
+      () => {
+        // the server ended it: shutting down, or e.g. the watchlist was deleted
+        if (this.stream !== stream) return;
+        if (shutdown) this.close(1001, "Server shutting down");
+        else this.close(1011, "Price stream ended");
+      },
+      err => {
+        if (stream.abort.signal.aborted) return;
+        const connectErr = ConnectError.from(err);
+        this.send({ type: "error", code: codeName(connectErr.code), message: connectErr.rawMessage });
+        if (this.stream === stream) this.close(1011, "Price stream failed");
+      }
+    );
+  }
+}
+
+function eventType(update: PriceUpdate): "price" | "status" | "removed" | "shutdown" {
+  if (update.shutdown) return "shutdown";
+  if (update.removed) return "removed";
+  return update.price ? "price" : "status";
+}
+
+function parseTickers(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length === 0) return null;
+  if (!value.every(ticker => typeof ticker === "string" && ticker.trim() !== "")) return null;
+  return value.map(ticker => ticker.trim().toUpperCase());
+}
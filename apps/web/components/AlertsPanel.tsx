@@ -0,0 +1,307 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CallbackClient } from '@connectrpc/connect';
+import { CryptoStreamService } from '../../../packages/tradingview-gen/proto/crypto-stream_connect';
+import {
+  AlertRule,
+  AlertType,
+  CreateAlertRequest,
+  DeleteAlertRequest
+} from '../../../packages/tradingview-gen/proto/crypto-stream_pb';
+import { describeAuthError } from '../lib/apiKey';
+
+interface TriggeredAlert {
+  id: string;
+  message: string;
+  time: string;
+}
+
+const ALERT_TYPE_LABELS: Record<number, string> = {
+  [AlertType.PRICE_ABOVE]: 'Price above',
+  [AlertType.PRICE_BELOW]: 'Price below',
+  [AlertType.PERCENT_CHANGE]: '% change within',
+  [AlertType.NO_UPDATE]: 'No update for'
+};
+
+// Readable one-line description of a rule
+function describeRule(rule: AlertRule): string {
+  const ticker = `${rule.exchange}:${rule.ticker}`;
+  switch (rule.type) {
+    case AlertType.PRICE_ABOVE:
+      return `${ticker} above ${rule.threshold}`;
+    case AlertType.PRICE_BELOW:
+      return `${ticker} below ${rule.threshold}`;
+    case AlertType.PERCENT_CHANGE:
+      return `${ticker} moves ${rule.threshold}% within ${rule.windowSeconds}s`;
+    case AlertType.NO_UPDATE:
+      return `${ticker} silent for ${rule.windowSeconds}s`;
+    default:
+      return ticker;
+  }
+}
+
+const inputStyle = {
+  padding: '8px 10px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '13px',
+  backgroundColor: '#f8f9fa'
+};
+
+// Create/delete alert rules and show alerts as they trigger
+export default function AlertsPanel({
+  client,
+  tickers
+}: {
+  client: CallbackClient<typeof CryptoStreamService>;
+  tickers: { symbol: string; exchange: string }[];
+}) {
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [triggered, setTriggered] = useState<TriggeredAlert[]>([]);
+  const [ticker, setTicker] = useState('');
+  const [type, setType] = useState<AlertType>(AlertType.PRICE_ABOVE);
+  const [threshold, setThreshold] = useState('');
+  const [windowSeconds, setWindowSeconds] = useState('60');
+  const [message, setMessage] = useState('');
+  const [notify, setNotify] = useState(false);
+  const notifyRef = useRef(notify); // read by the stream callback without restarting the stream
+  notifyRef.current = notify;
+
+  const needsThreshold = type !== AlertType.NO_UPDATE;
+  const needsWindow = type === AlertType.PERCENT_CHANGE || type === AlertType.NO_UPDATE;
+
+  const loadRules = () => {
+    client.listAlerts({}, (error, response) => {
+      if (error) {
+        console.error('Failed to load alerts:', error);
+        return;
+      }
+      setRules(response.alerts);
+    });
+  };
+
+  useEffect(loadRules, []);
+
+  // Stream triggered alerts
+  useEffect(() => {
+    let isActive = true;
+
+    const cancel = client.streamAlerts(
+      {},
+      (notification) => {
+        if (!isActive) return;
+
+        setTriggered(prev => [{
+          id: `${notification.alert?.id}-${notification.timestamp}`,
+          message: notification.message,
+          time: new Date(Number(notification.timestamp)).toLocaleTimeString()
+        }, ...prev].slice(0, 20));
+
+        // Keep lastTriggeredAt in the rules list current
+        if (notification.alert) {
+          const updated = notification.alert;
+          setRules(prev => prev.map(rule => rule.id === updated.id ? updated : rule));
+        }
+
+        if (notifyRef.current && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+          new Notification('Price alert', { body: notification.message });
+        }
+      },
+      (error) => {
+        if (isActive && error) {
+          console.error('Alert stream error:', error);
+        }
+      }
+    );
+
+    return () => {
+      isActive = false;
+      cancel();
+    };
+  }, []);
+
+  const handleNotifyChange = (enabled: boolean) => {
+    if (enabled && typeof Notification !== 'undefined' && Notification.permission !== 'granted') {
+      Notification.requestPermission().then(permission => setNotify(permission === 'granted'));
+      return;
+    }
+    setNotify(enabled);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const [exchange, symbol] = (ticker || (tickers[0] ? `${tickers[0].exchange}:${tickers[0].symbol}` : '')).split(':');
+    if (!symbol) {
+      setMessage('❌ Add a ticker before creating alerts');
+      return;
+    }
+
+    client.createAlert(new CreateAlertRequest({
+      ticker: symbol,
+      exchange,
+      type,
+      threshold: needsThreshold ? Number(threshold) : 0,
+      windowSeconds: needsWindow ? Number(windowSeconds) : 0
+    }), (error, response) => {
+      if (error) {
+        console.error('Failed to create alert:', error);
+        setMessage(describeAuthError(error, '❌ Failed to create alert. Check console for details.'));
+        return;
+      }
+
+      if (response.success) {
+        setMessage(`✅ ${response.message}`);
+        setThreshold('');
+        loadRules();
+      } else {
+        setMessage(`❌ ${response.message}`);
+      }
+    });
+  };
+
+  const handleDelete = (id: string) => {
+    client.deleteAlert(new DeleteAlertRequest({ id }), (error, response) => {
+      if (error) {
+        console.error('Failed to delete alert:', error);
+        setMessage(describeAuthError(error, '❌ Failed to delete alert. Check console for details.'));
+        return;
+      }
+      if (response.success) {
+        setRules(prev => prev.filter(rule => rule.id !== id));
+      } else {
+        setMessage(`❌ ${response.message}`);
+      }
+    });
+  };
+
+  return (
+    <div style={{
+      backgroundColor: 'white',
+      borderRadius: '8px',
+      boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+      marginTop: '20px',
+      overflow: 'hidden'
+    }}>
+      <div style={{
+        padding: '15px 20px',
+        borderBottom: '1px solid #eee',
+        fontSize: '16px',
+        fontWeight: '600',
+        color: '#333',
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center'
+      }}>
+        Alerts ({rules.length})
+        <label style={{ fontSize: '13px', fontWeight: '400', color: '#666' }}>
+          <input
+            type="checkbox"
+            checked={notify}
+            onChange={(e) => handleNotifyChange(e.target.checked)}
+            style={{ marginRight: '6px' }}
+          />
+          Browser notifications
+        </label>
+      </div>
+
+      {/* Create Alert Form */}
+      <form onSubmit={handleCreate} style={{ display: 'flex', gap: '8px', padding: '15px 20px', borderBottom: '1px solid #eee' }}>
+        <select value={ticker} onChange={(e) => setTicker(e.target.value)} style={inputStyle}>
+          {tickers.map(t => (
+            <option key={`${t.exchange}:${t.symbol}`} value={`${t.exchange}:${t.symbol}`}>
+              {t.symbol} ({t.exchange})
+            </option>
+          ))}
+        </select>
+        <select value={type} onChange={(e) => setType(Number(e.target.value))} style={inputStyle}>
+          {Object.entries(ALERT_TYPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+        {needsThreshold && (
+          <input
+            type="number"
+            step="any"
+            value={threshold}
+            onChange={(e) => setThreshold(e.target.value)}
+            placeholder={type === AlertType.PERCENT_CHANGE ? 'Percent' : 'Price'}
+            style={{ ...inputStyle, width: '100px' }}
+          />
+        )}
+        {needsWindow && (
+          <input
+            type="number"
+            min="1"
+            value={windowSeconds}
+            onChange={(e) => setWindowSeconds(e.target.value)}
+            placeholder="Seconds"
+            style={{ ...inputStyle, width: '80px' }}
+          />
+        )}
+        <button
+          type="submit"
+          disabled={tickers.length === 0 || (needsThreshold && !threshold)}
+          style={{
+            backgroundColor: '#000',
+            color: 'white',
+            border: 'none',
+            padding: '8px 16px',
+            borderRadius: '4px',
+            fontSize: '13px',
+            fontWeight: '500',
+            cursor: 'pointer'
+          }}
+        >
+          Create alert
+        </button>
+      </form>
+
+      {message && (
+        <div style={{ padding: '10px 20px', fontSize: '13px', color: '#333', borderBottom: '1px solid #eee' }}>
+          {message}
+        </div>
+      )}
+
+      {/* Alert Rules */}
+      {rules.map(rule => (
+        <div
+          key={rule.id}
+          style={{
+            display: 'flex',
+            justifyContent: 'space-between',
+            alignItems: 'center',
+            padding: '10px 20px',
+            borderBottom: '1px solid #eee',
+            fontSize: '13px'
+          }}
+        >
+          <div>
+            {describeRule(rule)}
+            {rule.lastTriggeredAt > 0 && (
+              <span style={{ color: '#666', marginLeft: '10px' }}>
+                last triggered {new Date(Number(rule.lastTriggeredAt)).toLocaleTimeString()}
+              </span>
+            )}
+          </div>
+          <button
+            onClick={() => handleDelete(rule.id)}
+            style={{ backgroundColor: 'transparent', border: 'none', cursor: 'pointer', fontSize: '14px' }}
+          >
+            x
+          </button>
+        </div>
+      ))}
+
+      {/* Triggered Alerts */}
+      {triggered.length > 0 && (
+        <div style={{ padding: '10px 20px', backgroundColor: '#fff8e1' }}>
+          {triggered.map(alert => (
+            <div key={alert.id} style={{ fontSize: '13px', color: '#333', padding: '4px 0' }}>
+              <span style={{ color: '#666', marginRight: '10px' }}>{alert.time}</span>
+              {alert.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
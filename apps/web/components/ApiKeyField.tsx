@@ -0,0 +1,53 @@
+import React, { useState, useEffect } from 'react';
+import { loadApiKey, saveApiKey } from '../lib/apiKey';
+
+// Enter or clear the API key; the page reloads so open streams reconnect with it
+export default function ApiKeyField() {
+  const [value, setValue] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    const key = loadApiKey();
+    setValue(key);
+    setSaved(key !== '');
+  }, []);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    saveApiKey(value.trim());
+    window.location.reload();
+  };
+
+  return (
+    <form onSubmit={handleSave} style={{ display: 'flex', gap: '8px', alignItems: 'center', marginTop: '12px' }}>
+      <input
+        type="password"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        placeholder="API key (only needed if the server requires one)"
+        style={{
+          flex: 1,
+          padding: '8px 10px',
+          border: '1px solid #ddd',
+          borderRadius: '4px',
+          fontSize: '13px',
+          backgroundColor: '#f8f9fa'
+        }}
+      />
+      <button
+        type="submit"
+        style={{
+          backgroundColor: 'transparent',
+          color: '#333',
+          border: '1px solid #ddd',
+          padding: '8px 12px',
+          borderRadius: '4px',
+          fontSize: '13px',
+          cursor: 'pointer'
+        }}
+      >
+        {value.trim() ? 'Save key' : saved ? 'Clear key' : 'Save key'}
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CallbackClient } from '@connectrpc/connect';
+import { CryptoStreamService } from '../../../packages/tradingview-gen/proto/crypto-stream_connect';
+import {
+  CreateWatchlistRequest,
+  DeleteWatchlistRequest,
+  ExportWatchlistRequest,
+  ImportWatchlistRequest,
+  Watchlist,
+  WatchlistFormat
+} from '../../../packages/tradingview-gen/proto/crypto-stream_pb';
+import { describeAuthError } from '../lib/apiKey';
+
+const inputStyle = {
+  padding: '8px 10px',
+  border: '1px solid #ddd',
+  borderRadius: '4px',
+  fontSize: '13px',
+  backgroundColor: '#f8f9fa'
+};
+
+const buttonStyle = {
+  backgroundColor: 'transparent',
+  color: '#333',
+  border: '1px solid #ddd',
+  padding: '8px 12px',
+  borderRadius: '4px',
+  fontSize: '13px',
+  cursor: 'pointer'
+};
+
+// Switch between, create, delete, import and export the user's watchlists.
+// The default watchlist is selected as ''.
+export default function WatchlistPicker({
+  client,
+  selected,
+  onSelect
+}: {
+  client: CallbackClient<typeof CryptoStreamService>;
+  selected: string;
+  onSelect: (id: string) => void;
+}) {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState('');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const loadWatchlists = () => {
+    client.listWatchlists({}, (error, response) => {
+      if (error) {
+        console.error('Failed to load watchlists:', error);
+        return;
+      }
+      setWatchlists(response.watchlists);
+    });
+  };
+
+  useEffect(loadWatchlists, []);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    client.createWatchlist(new CreateWatchlistRequest({ name: name.trim() }), (error, response) => {
+      if (error) {
+        console.error('Failed to create watchlist:', error);
+        setMessage(describeAuthError(error, '❌ Failed to create watchlist. Check console for details.'));
+        return;
+      }
+      if (!response.success || !response.watchlist) {
+        setMessage(`❌ ${response.message}`);
+        return;
+      }
+      setMessage('');
+      setName('');
+      loadWatchlists();
+      onSelect(response.watchlist.id);
+    });
+  };
+
+  const handleDelete = () => {
+    const current = watchlists.find(w => w.id === selected);
+    if (!current || !window.confirm(`Delete watchlist "${current.name}"?`)) return;
+
+    client.deleteWatchlist(new DeleteWatchlistRequest({ id: current.id }), (error, response) => {
+      if (error) {
+        console.error('Failed to delete watchlist:', error);
+        setMessage(describeAuthError(error, '❌ Failed to delete watchlist. Check console for details.'));
+        return;
+      }
+      setMessage(response.success ? '' : `❌ ${response.message}`);
+      loadWatchlists();
+      if (response.success) onSelect('');
+    });
+  };
+
+  const handleExport = (format: WatchlistFormat) => {
+    client.exportWatchlist(new ExportWatchlistRequest({ watchlistId: selected, format }), (error, response) => {
+      if (error) {
+        console.error('Failed to export watchlist:', error);
+        setMessage(describeAuthError(error, '❌ Failed to export watchlist. Check console for details.'));
+        return;
+      }
+      // hand the file to the browser as a download
+      const url = URL.createObjectURL(new Blob([response.content], { type: response.contentType }));
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = response.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  };
+
+  // A file becomes a new watchlist, named after the file for CSV (JSON files carry their own name)
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // so picking the same file again still fires
+    if (!file) return;
+
+    const isCsv = file.name.toLowerCase().endsWith('.csv');
+    const request = new ImportWatchlistRequest({
+      content: await file.text(),
+      format: isCsv ? WatchlistFormat.CSV : WatchlistFormat.JSON,
+      name: isCsv ? file.name.replace(/\.csv$/i, '') : ''
+    });
+    client.importWatchlist(request, (error, response) => {
+      if (error) {
+        console.error('Failed to import watchlist:', error);
+        setMessage(describeAuthError(error, `❌ ${error.rawMessage}`));
+        return;
+      }
+      const failed = response.results.filter(result => !result.success);
+      const added = response.results.length - failed.length;
+      setMessage(
+        `${failed.length ? '⚠️' : '✅'} Imported ${added} of ${response.results.length} tickers into ${response.watchlist?.name}` +
+        failed.map(result => `; ${result.exchange}:${result.ticker}: ${result.message}`).join('')
+      );
+      loadWatchlists();
+      if (response.watchlist) onSelect(response.watchlist.isDefault ? '' : response.watchlist.id);
+    });
+  };
+
+  return (
+    <div style={{ marginTop: '12px' }}>
+      <div style={{ display: 'flex', gap: '8px', alignItems: 'center' }}>
+        <select
+          value={selected}
+          onChange={(e) => onSelect(e.target.value)}
+          style={{ ...inputStyle, minWidth: '180px' }}
+        >
+          {watchlists.map((watchlist) => (
+            <option key={watchlist.id} value={watchlist.isDefault ? '' : watchlist.id}>
+              {watchlist.name}
+            </option>
+          ))}
+        </select>
+        {selected && (
+          <button type="button" onClick={handleDelete} style={buttonStyle}>
+            Delete list
+          </button>
+        )}
+        <button type="button" onClick={() => handleExport(WatchlistFormat.JSON)} style={buttonStyle}>
+          Export JSON
+        </button>
+        <button type="button" onClick={() => handleExport(WatchlistFormat.CSV)} style={buttonStyle}>
+          Export CSV
+        </button>
+        <button type="button" onClick={() => fileInput.current?.click()} style={buttonStyle}>
+          Import list
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.csv,application/json,text/csv"
+          onChange={handleImport}
+          style={{ display: 'none' }}
+        />
+        <form onSubmit={handleCreate} style={{ display: 'flex', gap: '8px', flex: 1 }}>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="New watchlist name"
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <button type="submit" disabled={!name.trim()} style={buttonStyle}>
+            Create list
+          </button>
+        </form>
+      </div>
+      {message && (
+        <div style={{ marginTop: '8px', fontSize: '13px', color: '#333' }}>{message}</div>
+      )}
+    </div>
+  );
+}
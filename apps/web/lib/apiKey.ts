@@ -0,0 +1,38 @@
+import { Code, ConnectError, Interceptor } from '@connectrpc/connect';
+
+// The API key is kept in the browser so it survives reloads; it never goes into the build
+const STORAGE_KEY = 'cryptoStreamApiKey';
+
+export function loadApiKey(): string {
+  return typeof window === 'undefined' ? '' : window.localStorage.getItem(STORAGE_KEY) ?? '';
+}
+
+export function saveApiKey(key: string): void {
+  if (key) {
+    window.localStorage.setItem(STORAGE_KEY, key);
+  } else {
+    window.localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+// Sends the stored key with every call; read per call so a changed key applies immediately
+export const apiKeyInterceptor: Interceptor = next => req => {
+  const key = loadApiKey();
+  if (key) {
+    req.header.set('Authorization', `Bearer ${key}`);
+  }
+  return next(req);
+};
+
+// User-facing text for auth and server limit failures; other errors keep the generic fallback
+export function describeAuthError(error: ConnectError, fallback: string): string {
+  switch (error.code) {
+    case Code.Unauthenticated:
+      return `❌ ${error.rawMessage}. Enter a valid API key above.`;
+    case Code.PermissionDenied:
+    case Code.ResourceExhausted:
+      return `❌ ${error.rawMessage}`;
+    default:
+      return fallback;
+  }
+}
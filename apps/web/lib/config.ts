@@ -0,0 +1,24 @@
+// Settings the page needs at runtime, read on the Next.js server from its environment
+// so one build can be deployed against different API servers
+export interface WebConfig {
+  apiBaseUrl: string; // where the ConnectRPC server listens
+}
+
+const DEFAULT_API_BASE_URL = 'http://localhost:8080';
+
+// Throws with a clear message if API_BASE_URL is not an http(s) URL
+export function loadWebConfig(env: NodeJS.ProcessEnv = process.env): WebConfig {
+  const apiBaseUrl = (env.API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, '');
+
+  let url: URL;
+  try {
+    url = new URL(apiBaseUrl);
+  } catch {
+    throw new Error(`Invalid API_BASE_URL "${apiBaseUrl}": expected a URL like ${DEFAULT_API_BASE_URL}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`Invalid API_BASE_URL "${apiBaseUrl}": must use http or https`);
+  }
+
+  return { apiBaseUrl };
+}
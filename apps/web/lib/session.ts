@@ -0,0 +1,22 @@
+import { Interceptor } from '@connectrpc/connect';
+
+// Without an API key the server keeps watchlists per browser, identified by this random id
+const STORAGE_KEY = 'cryptoStreamSessionId';
+
+export function loadSessionId(): string {
+  if (typeof window === 'undefined') return '';
+  let id = window.localStorage.getItem(STORAGE_KEY);
+  if (!id) {
+    id = window.crypto.randomUUID();
+    window.localStorage.setItem(STORAGE_KEY, id);
+  }
+  return id;
+}
+
+export const sessionInterceptor: Interceptor = next => req => {
+  const id = loadSessionId();
+  if (id) {
+    req.header.set('X-Session-Id', id);
+  }
+  return next(req);
+};
@@ -1,16 +1,137 @@
 import React, { useState, useEffect, useMemo } from 'react';
+import { GetServerSideProps } from 'next';
 import { createConnectTransport } from '@connectrpc/connect-web';
-import { createCallbackClient } from '@connectrpc/connect';
+import { Code, createCallbackClient } from '@connectrpc/connect';
 import { CryptoStreamService } from '../../../packages/tradingview-gen/proto/crypto-stream_connect';
 import {
   AddTickerRequest,
-  RemoveTickerRequest
+  AddTickersRequest,
+  PriceUpdate,
+  RemoveTickerRequest,
+  Quote,
+  SymbolInfo,
+  TickerStatus
 } from '../../../packages/tradingview-gen/proto/crypto-stream_pb';
+import AlertsPanel from '../components/AlertsPanel';
+import ApiKeyField from '../components/ApiKeyField';
+import WatchlistPicker from '../components/WatchlistPicker';
+import { apiKeyInterceptor, describeAuthError } from '../lib/apiKey';
+import { sessionInterceptor } from '../lib/session';
+import { WebConfig, loadWebConfig } from '../lib/config';
 
 interface TickerData {
   symbol: string;
+  exchange: string;
   price: string;
   lastUpdated: string;
+  status: TickerStatus;
+  quote?: Quote; // daily stats, once the server has them
+}
+
+// Shown in place of the last-updated time while a ticker has no price
+const STATUS_LABELS: Partial<Record<TickerStatus, string>> = {
+  [TickerStatus.RESTORING]: 'Restoring after server restart...',
+  [TickerStatus.LIVE]: 'Waiting for first price...',
+  [TickerStatus.FAILED]: 'Price feed failed'
+};
+
+// Shown next to the last price while the server's watchdog is repairing a silent feed
+const DEGRADED_LABELS: Partial<Record<TickerStatus, string>> = {
+  [TickerStatus.STALE]: 'Stale',
+  [TickerStatus.RECOVERING]: 'Reconnecting...'
+};
+
+// Exchanges the server can track (must match the server's list)
+const EXCHANGES = ['BINANCE', 'COINBASE', 'KRAKEN', 'BYBIT'];
+
+// Price stream reconnects wait this long, doubling per failed attempt up to the cap; the jitter
+// keeps every open page from reconnecting at the same moment after a server restart
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30_000;
+
+// Stream errors retrying can't fix (deleted watchlist, bad or missing API key); the stream stays closed
+const FATAL_STREAM_CODES = [Code.NotFound, Code.Unauthenticated, Code.PermissionDenied, Code.InvalidArgument];
+
+type ConnectionStatus = 'connecting' | 'live' | 'reconnecting' | 'failed';
+
+interface ConnectionState {
+  status: ConnectionStatus;
+  attempt: number;
+  error?: string; // why the stream stopped, when failed
+}
+
+const CONNECTION_BADGES: Record<ConnectionStatus, { label: string; color: string }> = {
+  connecting: { label: 'Connecting', color: '#f9a825' },
+  live: { label: 'Live', color: '#2e7d32' },
+  reconnecting: { label: 'Reconnecting', color: '#d32f2f' },
+  failed: { label: 'Disconnected', color: '#9e9e9e' }
+};
+
+// Symbol autocomplete: matches shown and how long typing must pause before searching
+const SUGGESTION_LIMIT = 8;
+const SUGGESTION_DELAY_MS = 150;
+
+// The same symbol can be tracked on several exchanges, so rows are identified by both
+const isSameTicker = (t: TickerData, symbol: string, exchange: string) =>
+  t.symbol === symbol && t.exchange === exchange;
+
+const compareTickers = (a: TickerData, b: TickerData) =>
+  a.symbol.localeCompare(b.symbol) || a.exchange.localeCompare(b.exchange);
+
+// Prices arrive as exact decimal strings; group the integer digits and keep every
+// fractional digit as quoted, so sub-cent tokens (0.00002451) never round to 0.00
+function formatPrice(value: string): string {
+  const match = /^(-?)(\d+)(\.\d+)?$/.exec(value);
+  if (!match) return value; // placeholder such as '—'
+  const [, sign, integer, fraction = ''] = match;
+  return `${sign}${integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',')}${fraction}`;
+}
+
+// Volumes are shown compact (12.35K, 1.2M); only the display is rounded
+const volumeFormat = new Intl.NumberFormat('en-US', { notation: 'compact', maximumFractionDigits: 2 });
+
+// Green for gains, red for losses, grey when flat or unknown
+function changeColor(value: string): string {
+  if (!value || !/[1-9]/.test(value)) return '#666';
+  return value.startsWith('-') ? '#d32f2f' : '#2e7d32';
+}
+
+// Daily change, percent change and volume; day range and bid/ask in the tooltip
+function QuoteCells({ quote }: { quote?: Quote }) {
+  if (!quote) return null;
+
+  const sign = quote.change && !quote.change.startsWith('-') && /[1-9]/.test(quote.change) ? '+' : '';
+  const details = [
+    quote.dayLow && quote.dayHigh ? `Day range ${formatPrice(quote.dayLow)} – ${formatPrice(quote.dayHigh)}` : '',
+    quote.bid && quote.ask ? `Bid ${formatPrice(quote.bid)} / Ask ${formatPrice(quote.ask)}` : ''
+  ].filter(Boolean).join('\n');
+
+  return (
+    <div title={details} style={{ display: 'flex', gap: '15px', fontSize: '13px', textAlign: 'right' }}>
+      {quote.change && (
+        <div style={{ color: changeColor(quote.change), minWidth: '90px' }}>
+          {sign}{formatPrice(quote.change)}
+          {quote.changePercent && ` (${sign}${quote.changePercent}%)`}
+        </div>
+      )}
+      {quote.volume && (
+        <div style={{ color: '#666', minWidth: '70px' }}>
+          Vol {volumeFormat.format(Number(quote.volume))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Price stream state shown next to the ticker count
+function ConnectionBadge({ status, attempt, error }: ConnectionState) {
+  const { label, color } = CONNECTION_BADGES[status];
+  return (
+    <span style={{ display: 'inline-flex', alignItems: 'center', gap: '6px', fontSize: '13px', fontWeight: 400, color: '#666' }}>
+      <span style={{ width: '8px', height: '8px', borderRadius: '50%', backgroundColor: color }} />
+      {error ?? `${label}${status === 'reconnecting' && attempt > 1 ? ` (attempt ${attempt})` : ''}`}
+    </span>
+  );
 }
 
 // Adds a bolding animation when price updates
@@ -32,92 +153,284 @@ function PriceCell({ value }: { value: string }) {
         transition: 'font-weight 0.3s ease'
       }}
     >
-      {value}
+      {formatPrice(value)}
     </div>
   );
 }
 
-export default function Home() {
+// Read on every request so API_BASE_URL can change without a rebuild
+export const getServerSideProps: GetServerSideProps<{ config: WebConfig }> = async () => ({
+  props: { config: loadWebConfig() }
+});
+
+export default function Home({ config }: { config: WebConfig }) {
   const [tickers, setTickers] = useState<TickerData[]>([]);
   const [newTicker, setNewTicker] = useState('');
+  const [newExchange, setNewExchange] = useState(EXCHANGES[0]);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
+  const [watchlistId, setWatchlistId] = useState(''); // '' = the default watchlist
+  const [connection, setConnection] = useState<ConnectionState>({ status: 'connecting', attempt: 0 });
+  const [resync, setResync] = useState(0); // bumped when the stream can't resume and the table must be reloaded
 
   // Create ConnectRPC client
-  const transport = useMemo(() => createConnectTransport({ baseUrl: 'http://localhost:8080' }), []);
+  const transport = useMemo(
+    () => createConnectTransport({ baseUrl: config.apiBaseUrl, interceptors: [sessionInterceptor, apiKeyInterceptor] }),
+    [config.apiBaseUrl]
+  );
   const client = useMemo(() => createCallbackClient(CryptoStreamService, transport), [transport]);
 
-  // Stream real-time price updates
+  // Load a snapshot of the watchlist's tickers so the table fills in before the first streamed tick
   useEffect(() => {
     let isActive = true;
+    setTickers([]);
+
+    client.getActiveTickers({ watchlistId }, (error, response) => {
+      if (!isActive) return; // another watchlist was picked meanwhile
+      if (error) {
+        console.error('Failed to load active tickers:', error);
+        return;
+      }
 
-    client.streamPrices(
-      {},
-      (response) => {
-        if (!isActive) return;
+      setTickers(prev => {
+        // Streamed updates may have arrived first; they are newer, so keep them
+        const snapshot = response.tickers
+          .filter(t => !prev.some(p => isSameTicker(p, t.symbol, t.exchange)))
+          .map(t => ({
+            symbol: t.symbol,
+            exchange: t.exchange,
+            price: t.currentPrice || '—',
+            lastUpdated: t.lastUpdated
+              ? new Date(t.lastUpdated).toLocaleTimeString()
+              : STATUS_LABELS[t.status] ?? 'Waiting for first price...',
+            status: t.status,
+            quote: t.quote
+          }));
+        return [...prev, ...snapshot].sort(compareTickers);
+      });
+    });
 
-        console.log('Received price update:', response);
+    return () => {
+      isActive = false;
+    };
+  }, [watchlistId, resync]);
 
-        // Check for removal message
-        if (response.removed) {
-          console.log(`Removing ticker from UI: ${response.ticker}`);
-          setTickers(prev => prev.filter(t => t.symbol !== response.ticker));
-          return;
+  // Stream real-time price updates for the selected watchlist. When the stream drops it is reopened
+  // with backoff, resuming after the last update seen so nothing in between is lost, unless the
+  // error is one a retry can't fix.
+  useEffect(() => {
+    let isActive = true;
+    let lastSequence = BigInt(0); // 0: no updates yet, start with a snapshot
+    let attempt = 0;
+    let retry: ReturnType<typeof setTimeout> | undefined;
+    let cancel = () => {};
+
+    setConnection({ status: 'connecting', attempt: 0 });
+
+    const reconnect = () => {
+      attempt++;
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** (attempt - 1));
+      setConnection({ status: 'reconnecting', attempt });
+      retry = setTimeout(connect, delay / 2 + Math.random() * delay / 2);
+    };
+
+    const connect = () => {
+      cancel = client.streamPrices(
+        { watchlistId, resumeFrom: lastSequence },
+        onUpdate,
+        (error) => {
+          if (!isActive) return;
+          if (error) console.error('Stream error:', error);
+          if (error && FATAL_STREAM_CODES.includes(error.code)) {
+            setConnection({ status: 'failed', attempt, error: describeAuthError(error, `❌ ${error.rawMessage}`) });
+            return;
+          }
+          reconnect();
+        },
+        {
+          onHeader: () => {
+            if (!isActive) return;
+            attempt = 0;
+            setConnection({ status: 'live', attempt: 0 });
+          }
         }
+      );
+    };
 
-        // Otherwise update price
-        setTickers(prev => {
-          const index = prev.findIndex(t => t.symbol === response.ticker);
+    const onUpdate = (response: PriceUpdate) => {
+      if (!isActive) return;
+      if (response.sequence > lastSequence) lastSequence = response.sequence;
+
+      console.log('Received price update:', response);
+
+      // The server is going away; the stream ends next and is reopened once it's back
+      if (response.shutdown) return;
+
+      // Missed too much (or the server restarted): reload the table, a fresh snapshot follows
+      if (response.reset) {
+        setResync(n => n + 1);
+        return;
+      }
 
+      // Check for removal message
+      if (response.removed) {
+        console.log(`Removing ticker from UI: ${response.exchange}:${response.ticker}`);
+        setTickers(prev => prev.filter(t => !isSameTicker(t, response.ticker, response.exchange)));
+        return;
+      }
+
+      // Status-only message (restoring, stale, recovering...): keep the last price
+      if (!response.price) {
+        const label = STATUS_LABELS[response.status] ?? DEGRADED_LABELS[response.status];
+        if (!label) return;
+
+        setTickers(prev => {
+          const index = prev.findIndex(t => isSameTicker(t, response.ticker, response.exchange));
           if (index === -1) {
-            // New ticker --> add it
             return [...prev, {
               symbol: response.ticker,
-              price: response.price,
-              lastUpdated: new Date(Number(response.timestamp)).toLocaleTimeString()
-            }].sort((a, b) => a.symbol.localeCompare(b.symbol));
-          } else {
-            // Existing ticker --> update it
-            const updated = [...prev];
-            updated[index] = {
-              symbol: response.ticker,
-              price: response.price,
-              lastUpdated: new Date(Number(response.timestamp)).toLocaleTimeString()
-            };
-            return updated;
+              exchange: response.exchange,
+              price: '—',
+              lastUpdated: label,
+              status: response.status
+            }].sort(compareTickers);
           }
+
+          const updated = [...prev];
+          updated[index] = {
+            ...prev[index],
+            // Keep the last-updated time once a price has arrived
+            lastUpdated: prev[index].price === '—' ? label : prev[index].lastUpdated,
+            status: response.status
+          };
+          return updated;
         });
-      },
-      (error) => {
-        if (isActive) {
-          console.error('Stream error:', error);
-        }
+        return;
       }
-    );
+
+      // Otherwise update price
+      setTickers(prev => {
+        const index = prev.findIndex(t => isSameTicker(t, response.ticker, response.exchange));
+
+        if (index === -1) {
+          // New ticker --> add it
+          return [...prev, {
+            symbol: response.ticker,
+            exchange: response.exchange,
+            price: response.price,
+            lastUpdated: new Date(Number(response.timestamp)).toLocaleTimeString(),
+            status: TickerStatus.LIVE,
+            quote: response.quote
+          }].sort(compareTickers);
+        } else {
+          // Existing ticker --> update it
+          const updated = [...prev];
+          updated[index] = {
+            symbol: response.ticker,
+            exchange: response.exchange,
+            price: response.price,
+            lastUpdated: new Date(Number(response.timestamp)).toLocaleTimeString(),
+            status: TickerStatus.LIVE,
+            quote: response.quote ?? prev[index].quote
+          };
+          return updated;
+        }
+      });
+    };
+
+    connect();
 
     return () => {
       isActive = false;
+      clearTimeout(retry);
+      cancel();
     };
-  }, []);
+  }, [watchlistId]);
 
   const [isInvalid, setIsInvalid] = useState(false); // highlights input if invalid
 
+  // Autocomplete from the server's symbol catalog, so typos show up before a slow validation
+  const [suggestions, setSuggestions] = useState<SymbolInfo[]>([]);
+  const [searchedQuery, setSearchedQuery] = useState(''); // query the suggestions are for
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  // Several tickers can be typed at once (comma or space separated); suggestions are for the last one
+  const lastTicker = newTicker.split(/[\s,]+/).pop() ?? '';
+
+  useEffect(() => {
+    const query = lastTicker;
+    if (!query) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    // wait for a pause in typing before searching
+    const timer = setTimeout(() => {
+      client.searchSymbols({ query, exchange: newExchange, limit: SUGGESTION_LIMIT }, (error, response) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Symbol search failed:', error);
+          setSuggestions([]);
+          return;
+        }
+        setSuggestions(response.symbols);
+        setSearchedQuery(query);
+        setHighlighted(-1);
+      });
+    }, SUGGESTION_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [lastTicker, newExchange]);
+
+  const pickSuggestion = (symbol: SymbolInfo) => {
+    setNewTicker(newTicker.replace(/[^\s,]*$/, symbol.symbol));
+    setIsInvalid(false);
+    setShowSuggestions(false);
+  };
+
+  const handleTickerKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!showSuggestions || suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(i => (i + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(i => (i <= 0 ? suggestions.length : i) - 1);
+    } else if (e.key === 'Enter' && highlighted >= 0) {
+      e.preventDefault(); // pick the suggestion instead of submitting
+      pickSuggestion(suggestions[highlighted]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
   const handleAddTicker = (e: React.FormEvent) => {
     e.preventDefault();
     if (!newTicker.trim()) return;
 
     setLoading(true);
     setMessage('');
+    setShowSuggestions(false);
+
+    const exchange = newExchange;
+    const batch = newTicker.toUpperCase().split(/[\s,]+/).filter(Boolean);
+    if (batch.length > 1) {
+      addBatch(batch, exchange);
+      return;
+    }
 
-    const ticker = newTicker.toUpperCase().trim();
-    console.log(`Adding ticker: ${ticker}`);
+    const ticker = batch[0];
+    console.log(`Adding ticker: ${exchange}:${ticker}`);
 
-    client.addTicker(new AddTickerRequest({ ticker }), (error, response) => {
+    client.addTicker(new AddTickerRequest({ ticker, exchange, watchlistId }), (error, response) => {
       setLoading(false);
 
       if (error) {
         console.error('Failed to add ticker:', error);
-        setMessage('Failed to add ticker. Check console for details.');
+        setMessage(describeAuthError(error, 'Failed to add ticker. Check console for details.'));
         setIsInvalid(true); // mark as invalid if request fails
         return;
       }
@@ -135,16 +448,47 @@ export default function Home() {
     });
   };
 
-  const handleRemoveTicker = (ticker: string) => {
-    console.log(`Removing ticker: ${ticker}`);
+  // One AddTickers call; tickers that failed stay in the input so they can be fixed and retried
+  const addBatch = (batch: string[], exchange: string) => {
+    console.log(`Adding tickers: ${batch.join(', ')} on ${exchange}`);
+    const request = new AddTickersRequest({
+      tickers: batch.map(ticker => ({ ticker, exchange })),
+      watchlistId
+    });
+    client.addTickers(request, (error, response) => {
+      setLoading(false);
+
+      if (error) {
+        console.error('Failed to add tickers:', error);
+        setMessage(describeAuthError(error, 'Failed to add tickers. Check console for details.'));
+        setIsInvalid(true);
+        return;
+      }
+
+      const failed = response.results.filter(result => !result.success);
+      setIsInvalid(failed.length > 0);
+      setNewTicker(failed.map(result => result.ticker).join(', '));
+      setMessage(
+        `${failed.length ? '⚠️' : '✅'} Added ${batch.length - failed.length} of ${batch.length} tickers` +
+        failed.map(result => `; ${result.ticker}: ${result.message}`).join('')
+      );
+    });
+  };
 
-    // Remove ticker from UI
-    setTickers(prev => prev.filter(t => t.symbol !== ticker));
+  const handleRemoveTicker = (ticker: string, exchange: string) => {
+    console.log(`Removing ticker: ${exchange}:${ticker}`);
 
-    client.removeTicker(new RemoveTickerRequest({ ticker }), (error, response) => {
+    // Remove ticker from UI, putting it back if the server refuses
+    const removed = tickers.find(t => isSameTicker(t, ticker, exchange));
+    setTickers(prev => prev.filter(t => !isSameTicker(t, ticker, exchange)));
+
+    client.removeTicker(new RemoveTickerRequest({ ticker, exchange, watchlistId }), (error, response) => {
       if (error) {
         console.error('Failed to remove ticker:', error);
-        setMessage('❌ Failed to remove ticker. Check console for details.');
+        setMessage(describeAuthError(error, '❌ Failed to remove ticker. Check console for details.'));
+        if (removed) {
+          setTickers(prev => prev.some(t => isSameTicker(t, ticker, exchange)) ? prev : [...prev, removed].sort(compareTickers));
+        }
         return;
       }
 
@@ -174,24 +518,94 @@ export default function Home() {
         boxShadow: '0 2px 4px rgba(0,0,0,0.1)'
       }}>
         <form onSubmit={handleAddTicker} style={{ display: 'flex', gap: '10px' }}>
-          <input
-            type="text"
-            value={newTicker}
+          <div style={{ position: 'relative', flex: 1, display: 'flex' }}>
+            <input
+              type="text"
+              value={newTicker}
+              onChange={(e) => {
+                setNewTicker(e.target.value)
+                setIsInvalid(false); // reset highlight as user types
+                setShowSuggestions(true);
+              }}
+              onKeyDown={handleTickerKeyDown}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              placeholder="Ticker (e.g., BTCUSD, or several: BTCUSDT, ETHUSDT)"
+              disabled={loading}
+              autoComplete="off"
+              style={{
+                flex: 1,
+                padding: '10px 15px',
+                border: `1px solid ${isInvalid ? 'red' : '#ddd'}`,  // RED border if invalid
+                borderRadius: '4px',
+                fontSize: '14px',
+                backgroundColor: isInvalid ? '#ffe6e6' : '#f8f9fa', // light red background if invalid
+              }}
+            />
+            {showSuggestions && lastTicker && (suggestions.length > 0 || searchedQuery === lastTicker) && (
+              <ul style={{
+                position: 'absolute',
+                top: '100%',
+                left: 0,
+                right: 0,
+                zIndex: 10,
+                margin: '4px 0 0',
+                padding: 0,
+                listStyle: 'none',
+                backgroundColor: 'white',
+                border: '1px solid #ddd',
+                borderRadius: '4px',
+                boxShadow: '0 2px 4px rgba(0,0,0,0.1)',
+                fontSize: '14px'
+              }}>
+                {suggestions.length === 0 && searchedQuery === lastTicker ? (
+                  <li style={{ padding: '8px 15px', color: '#999' }}>
+                    No matching symbols on {newExchange}
+                  </li>
+                ) : suggestions.map((symbol, i) => (
+                  <li
+                    key={`${symbol.exchange}:${symbol.symbol}`}
+                    // mousedown fires before the input's blur closes the list
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      pickSuggestion(symbol);
+                    }}
+                    onMouseEnter={() => setHighlighted(i)}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      gap: '10px',
+                      padding: '8px 15px',
+                      cursor: 'pointer',
+                      backgroundColor: i === highlighted ? '#f0f0f0' : 'white'
+                    }}
+                  >
+                    <span style={{ fontWeight: '500' }}>{symbol.symbol}</span>
+                    <span style={{ color: '#666', fontSize: '12px' }}>{symbol.description}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <select
+            value={newExchange}
             onChange={(e) => {
-              setNewTicker(e.target.value)
-              setIsInvalid(false); // reset highlight as user types
+              setNewExchange(e.target.value);
+              setIsInvalid(false); // a symbol may exist on the other exchange
             }}
-            placeholder="Ticker (e.g., BTCUSD)"
             disabled={loading}
             style={{
-              flex: 1,
               padding: '10px 15px',
-              border: `1px solid ${isInvalid ? 'red' : '#ddd'}`,  // RED border if invalid
+              border: '1px solid #ddd',
               borderRadius: '4px',
               fontSize: '14px',
-              backgroundColor: isInvalid ? '#ffe6e6' : '#f8f9fa', // light red background if invalid
+              backgroundColor: '#f8f9fa'
             }}
-          />
+          >
+            {EXCHANGES.map((exchange) => (
+              <option key={exchange} value={exchange}>{exchange}</option>
+            ))}
+          </select>
           <button
             type="submit"
             disabled={loading || !newTicker.trim()}
@@ -210,6 +624,8 @@ export default function Home() {
             {loading ? 'Adding...' : 'Add'}
           </button>
         </form>
+        <WatchlistPicker client={client} selected={watchlistId} onSelect={setWatchlistId} />
+        <ApiKeyField />
       </div>
 
       {/* Active Tickers List */}
@@ -226,7 +642,10 @@ export default function Home() {
           fontWeight: '600',
           color: '#333'
         }}>
-          Active Tickers ({tickers.length})
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            Active Tickers ({tickers.length})
+            <ConnectionBadge {...connection} />
+          </div>
         </div>
 
         {tickers.length === 0 ? (
@@ -243,13 +662,16 @@ export default function Home() {
           <div>
             {tickers.map((ticker) => (
               <div
-                key={ticker.symbol}
+                key={`${ticker.exchange}:${ticker.symbol}`}
                 style={{
                   display: 'flex',
                   alignItems: 'center',
                   justifyContent: 'space-between',
                   padding: '15px 20px',
-                  borderBottom: '1px solid #eee'
+                  borderBottom: '1px solid #eee',
+                  // Grey out tickers whose feed has gone silent until it recovers
+                  opacity: DEGRADED_LABELS[ticker.status] ? 0.5 : 1,
+                  transition: 'opacity 0.3s ease'
                 }}
               >
                 <div>
@@ -266,18 +688,35 @@ export default function Home() {
                     marginTop: '2px'
                   }}>
                     {ticker.lastUpdated}
+                    {DEGRADED_LABELS[ticker.status] && (
+                      <span style={{ marginLeft: '6px', fontWeight: '600' }}>
+                        · {DEGRADED_LABELS[ticker.status]}
+                      </span>
+                    )}
                   </div>
                 </div>
 
+                {/* Exchange column */}
+                <div style={{
+                  flex: 1,
+                  paddingLeft: '20px',
+                  fontSize: '12px',
+                  fontWeight: '500',
+                  color: '#333'
+                }}>
+                  {ticker.exchange}
+                </div>
+
                 <div style={{
                   display: 'flex',
                   alignItems: 'center',
                   gap: '15px'
                 }}>
+                  <QuoteCells quote={ticker.quote} />
                   <PriceCell value={ticker.price} />
 
                   <button
-                    onClick={() => handleRemoveTicker(ticker.symbol)}
+                    onClick={() => handleRemoveTicker(ticker.symbol, ticker.exchange)}
                     style={{
                       backgroundColor: 'transparent',
                       color: '#333',
@@ -317,6 +756,9 @@ export default function Home() {
           </div>
         )}
       </div>
+
+      {/* Alerts */}
+      <AlertsPanel client={client} tickers={tickers} />
     </div>
   );
 }
\ No newline at end of file
@@ -3,7 +3,7 @@
 /* eslint-disable */
 // @ts-nocheck
 
-import { AddTickerRequest, AddTickerResponse, PriceUpdate, RemoveTickerRequest, RemoveTickerResponse, StreamPricesRequest } from "./crypto-stream_pb.js";
+import { AddTickerRequest, AddTickerResponse, AddTickersRequest, AddTickersResponse, AlertNotification, Candle, CreateAlertRequest, CreateAlertResponse, CreateWatchlistRequest, CreateWatchlistResponse, DeleteAlertRequest, DeleteAlertResponse, DeleteWatchlistRequest, DeleteWatchlistResponse, ExportWatchlistRequest, ExportWatchlistResponse, GetActiveTickersRequest, GetActiveTickersResponse, GetCandlesRequest, GetCandlesResponse, GetPriceHistoryRequest, GetPriceHistoryResponse, ImportWatchlistRequest, ImportWatchlistResponse, ListAlertsRequest, ListAlertsResponse, ListWatchlistsRequest, ListWatchlistsResponse, PriceUpdate, RemoveTickerRequest, RemoveTickerResponse, RemoveTickersRequest, RemoveTickersResponse, SearchSymbolsRequest, SearchSymbolsResponse, StreamAlertsRequest, StreamCandlesRequest, StreamPricesRequest, UpdateStreamFilterRequest, UpdateStreamFilterResponse } from "./crypto-stream_pb.js";
 import { MethodKind } from "@bufbuild/protobuf";
 
 /**
@@ -47,6 +47,181 @@ export const CryptoStreamService = {
       O: PriceUpdate,
       kind: MethodKind.ServerStreaming,
     },
+    /**
+     * Change the ticker filter of an open StreamPrices call
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.UpdateStreamFilter
+     */
+    updateStreamFilter: {
+      name: "UpdateStreamFilter",
+      I: UpdateStreamFilterRequest,
+      O: UpdateStreamFilterResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * Snapshot of the tickers in a watchlist without opening a stream
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.GetActiveTickers
+     */
+    getActiveTickers: {
+      name: "GetActiveTickers",
+      I: GetActiveTickersRequest,
+      O: GetActiveTickersResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * Recorded ticks for a ticker within a time range
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.GetPriceHistory
+     */
+    getPriceHistory: {
+      name: "GetPriceHistory",
+      I: GetPriceHistoryRequest,
+      O: GetPriceHistoryResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * Stream in-progress and closed OHLC candles
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.StreamCandles
+     */
+    streamCandles: {
+      name: "StreamCandles",
+      I: StreamCandlesRequest,
+      O: Candle,
+      kind: MethodKind.ServerStreaming,
+    },
+    /**
+     * Candles built from recorded ticks, for backfilling charts
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.GetCandles
+     */
+    getCandles: {
+      name: "GetCandles",
+      I: GetCandlesRequest,
+      O: GetCandlesResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * Manage price alert rules
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.CreateAlert
+     */
+    createAlert: {
+      name: "CreateAlert",
+      I: CreateAlertRequest,
+      O: CreateAlertResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * @generated from rpc crypto_stream.CryptoStreamService.ListAlerts
+     */
+    listAlerts: {
+      name: "ListAlerts",
+      I: ListAlertsRequest,
+      O: ListAlertsResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * @generated from rpc crypto_stream.CryptoStreamService.DeleteAlert
+     */
+    deleteAlert: {
+      name: "DeleteAlert",
+      I: DeleteAlertRequest,
+      O: DeleteAlertResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * Stream triggered alerts (recently triggered ones are sent first)
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.StreamAlerts
+     */
+    streamAlerts: {
+      name: "StreamAlerts",
+      I: StreamAlertsRequest,
+      O: AlertNotification,
+      kind: MethodKind.ServerStreaming,
+    },
+    /**
+     * Manage the caller's named watchlists
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.CreateWatchlist
+     */
+    createWatchlist: {
+      name: "CreateWatchlist",
+      I: CreateWatchlistRequest,
+      O: CreateWatchlistResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * @generated from rpc crypto_stream.CryptoStreamService.ListWatchlists
+     */
+    listWatchlists: {
+      name: "ListWatchlists",
+      I: ListWatchlistsRequest,
+      O: ListWatchlistsResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * @generated from rpc crypto_stream.CryptoStreamService.DeleteWatchlist
+     */
+    deleteWatchlist: {
+      name: "DeleteWatchlist",
+      I: DeleteWatchlistRequest,
+      O: DeleteWatchlistResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * Find symbols in the locally cached symbol catalog, for autocomplete
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.SearchSymbols
+     */
+    searchSymbols: {
+      name: "SearchSymbols",
+      I: SearchSymbolsRequest,
+      O: SearchSymbolsResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * Add or remove several tickers at once, with a result per ticker
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.AddTickers
+     */
+    addTickers: {
+      name: "AddTickers",
+      I: AddTickersRequest,
+      O: AddTickersResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * @generated from rpc crypto_stream.CryptoStreamService.RemoveTickers
+     */
+    removeTickers: {
+      name: "RemoveTickers",
+      I: RemoveTickersRequest,
+      O: RemoveTickersResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * Share watchlists as JSON or CSV files
+     *
+     * @generated from rpc crypto_stream.CryptoStreamService.ExportWatchlist
+     */
+    exportWatchlist: {
+      name: "ExportWatchlist",
+      I: ExportWatchlistRequest,
+      O: ExportWatchlistResponse,
+      kind: MethodKind.Unary,
+    },
+    /**
+     * @generated from rpc crypto_stream.CryptoStreamService.ImportWatchlist
+     */
+    importWatchlist: {
+      name: "ImportWatchlist",
+      I: ImportWatchlistRequest,
+      O: ImportWatchlistResponse,
+      kind: MethodKind.Unary,
+    },
   }
 } as const;
 
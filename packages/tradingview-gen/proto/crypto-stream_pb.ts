@@ -6,6 +6,142 @@
 import type { BinaryReadOptions, FieldList, JsonReadOptions, JsonValue, PartialMessage, PlainMessage } from "@bufbuild/protobuf";
 import { Message, proto3, protoInt64 } from "@bufbuild/protobuf";
 
+/**
+ * Lifecycle of a tracked ticker's price feed
+ *
+ * @generated from enum crypto_stream.TickerStatus
+ */
+export enum TickerStatus {
+  /**
+   * @generated from enum value: TICKER_STATUS_UNSPECIFIED = 0;
+   */
+  UNSPECIFIED = 0,
+
+  /**
+   * being resubscribed after a server restart
+   *
+   * @generated from enum value: TICKER_STATUS_RESTORING = 1;
+   */
+  RESTORING = 1,
+
+  /**
+   * price feed attached
+   *
+   * @generated from enum value: TICKER_STATUS_LIVE = 2;
+   */
+  LIVE = 2,
+
+  /**
+   * price feed could not be attached or recovered, ticker is removed
+   *
+   * @generated from enum value: TICKER_STATUS_FAILED = 3;
+   */
+  FAILED = 3,
+
+  /**
+   * no tick within the watchdog's silence threshold
+   *
+   * @generated from enum value: TICKER_STATUS_STALE = 4;
+   */
+  STALE = 4,
+
+  /**
+   * page is being reloaded and re-attached
+   *
+   * @generated from enum value: TICKER_STATUS_RECOVERING = 5;
+   */
+  RECOVERING = 5,
+}
+// Retrieve enum metadata with: proto3.getEnumType(TickerStatus)
+proto3.util.setEnumType(TickerStatus, "crypto_stream.TickerStatus", [
+  { no: 0, name: "TICKER_STATUS_UNSPECIFIED" },
+  { no: 1, name: "TICKER_STATUS_RESTORING" },
+  { no: 2, name: "TICKER_STATUS_LIVE" },
+  { no: 3, name: "TICKER_STATUS_FAILED" },
+  { no: 4, name: "TICKER_STATUS_STALE" },
+  { no: 5, name: "TICKER_STATUS_RECOVERING" },
+]);
+
+/**
+ * Condition an alert rule checks
+ *
+ * @generated from enum crypto_stream.AlertType
+ */
+export enum AlertType {
+  /**
+   * @generated from enum value: ALERT_TYPE_UNSPECIFIED = 0;
+   */
+  UNSPECIFIED = 0,
+
+  /**
+   * price crosses above threshold
+   *
+   * @generated from enum value: ALERT_TYPE_PRICE_ABOVE = 1;
+   */
+  PRICE_ABOVE = 1,
+
+  /**
+   * price crosses below threshold
+   *
+   * @generated from enum value: ALERT_TYPE_PRICE_BELOW = 2;
+   */
+  PRICE_BELOW = 2,
+
+  /**
+   * price moves at least threshold % within window_seconds
+   *
+   * @generated from enum value: ALERT_TYPE_PERCENT_CHANGE = 3;
+   */
+  PERCENT_CHANGE = 3,
+
+  /**
+   * no tick for window_seconds
+   *
+   * @generated from enum value: ALERT_TYPE_NO_UPDATE = 4;
+   */
+  NO_UPDATE = 4,
+}
+// Retrieve enum metadata with: proto3.getEnumType(AlertType)
+proto3.util.setEnumType(AlertType, "crypto_stream.AlertType", [
+  { no: 0, name: "ALERT_TYPE_UNSPECIFIED" },
+  { no: 1, name: "ALERT_TYPE_PRICE_ABOVE" },
+  { no: 2, name: "ALERT_TYPE_PRICE_BELOW" },
+  { no: 3, name: "ALERT_TYPE_PERCENT_CHANGE" },
+  { no: 4, name: "ALERT_TYPE_NO_UPDATE" },
+]);
+
+/**
+ * @generated from enum crypto_stream.WatchlistFormat
+ */
+export enum WatchlistFormat {
+  /**
+   * same as JSON
+   *
+   * @generated from enum value: WATCHLIST_FORMAT_UNSPECIFIED = 0;
+   */
+  UNSPECIFIED = 0,
+
+  /**
+   * {"name": "...", "tickers": [{"symbol": "BTCUSDT", "exchange": "BINANCE"}]}
+   *
+   * @generated from enum value: WATCHLIST_FORMAT_JSON = 1;
+   */
+  JSON = 1,
+
+  /**
+   * "symbol,exchange" header, then one ticker per line
+   *
+   * @generated from enum value: WATCHLIST_FORMAT_CSV = 2;
+   */
+  CSV = 2,
+}
+// Retrieve enum metadata with: proto3.getEnumType(WatchlistFormat)
+proto3.util.setEnumType(WatchlistFormat, "crypto_stream.WatchlistFormat", [
+  { no: 0, name: "WATCHLIST_FORMAT_UNSPECIFIED" },
+  { no: 1, name: "WATCHLIST_FORMAT_JSON" },
+  { no: 2, name: "WATCHLIST_FORMAT_CSV" },
+]);
+
 /**
  * Request to add a ticker
  *
@@ -19,6 +155,20 @@ export class AddTickerRequest extends Message<AddTickerRequest> {
    */
   ticker = "";
 
+  /**
+   * e.g., "BINANCE", "COINBASE"; empty = BINANCE
+   *
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * empty = the caller's default watchlist
+   *
+   * @generated from field: string watchlist_id = 3;
+   */
+  watchlistId = "";
+
   constructor(data?: PartialMessage<AddTickerRequest>) {
     super();
     proto3.util.initPartial(data, this);
@@ -28,6 +178,8 @@ export class AddTickerRequest extends Message<AddTickerRequest> {
   static readonly typeName = "crypto_stream.AddTickerRequest";
   static readonly fields: FieldList = proto3.util.newFieldList(() => [
     { no: 1, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "watchlist_id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
   ]);
 
   static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): AddTickerRequest {
@@ -101,6 +253,20 @@ export class RemoveTickerRequest extends Message<RemoveTickerRequest> {
    */
   ticker = "";
 
+  /**
+   * empty = BINANCE
+   *
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * empty = the caller's default watchlist
+   *
+   * @generated from field: string watchlist_id = 3;
+   */
+  watchlistId = "";
+
   constructor(data?: PartialMessage<RemoveTickerRequest>) {
     super();
     proto3.util.initPartial(data, this);
@@ -110,6 +276,8 @@ export class RemoveTickerRequest extends Message<RemoveTickerRequest> {
   static readonly typeName = "crypto_stream.RemoveTickerRequest";
   static readonly fields: FieldList = proto3.util.newFieldList(() => [
     { no: 1, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "watchlist_id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
   ]);
 
   static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): RemoveTickerRequest {
@@ -175,11 +343,46 @@ export class RemoveTickerResponse extends Message<RemoveTickerResponse> {
 /**
  * Request to start streaming prices
  *
- * Empty for now, may add filters later
- *
  * @generated from message crypto_stream.StreamPricesRequest
  */
 export class StreamPricesRequest extends Message<StreamPricesRequest> {
+  /**
+   * only stream these tickers (SYMBOL or EXCHANGE:SYMBOL), empty = all
+   *
+   * @generated from field: repeated string tickers = 1;
+   */
+  tickers: string[] = [];
+
+  /**
+   * only stream this exchange, empty = all
+   *
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * client-chosen id, needed to update the filter later
+   *
+   * @generated from field: string stream_id = 3;
+   */
+  streamId = "";
+
+  /**
+   * only tickers in this watchlist; empty = the caller's default watchlist
+   *
+   * @generated from field: string watchlist_id = 4;
+   */
+  watchlistId = "";
+
+  /**
+   * Last sequence the client received on an earlier stream: replays the updates it missed since
+   * instead of the usual snapshot. If they are no longer buffered (or the server restarted), the
+   * stream starts with a reset update followed by a full snapshot. 0 = a fresh stream.
+   *
+   * @generated from field: uint64 resume_from = 5;
+   */
+  resumeFrom = protoInt64.zero;
+
   constructor(data?: PartialMessage<StreamPricesRequest>) {
     super();
     proto3.util.initPartial(data, this);
@@ -188,6 +391,11 @@ export class StreamPricesRequest extends Message<StreamPricesRequest> {
   static readonly runtime: typeof proto3 = proto3;
   static readonly typeName = "crypto_stream.StreamPricesRequest";
   static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "tickers", kind: "scalar", T: 9 /* ScalarType.STRING */, repeated: true },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "stream_id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 4, name: "watchlist_id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 5, name: "resume_from", kind: "scalar", T: 4 /* ScalarType.UINT64 */ },
   ]);
 
   static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): StreamPricesRequest {
@@ -207,6 +415,104 @@ export class StreamPricesRequest extends Message<StreamPricesRequest> {
   }
 }
 
+/**
+ * Replace the filter of an open stream
+ *
+ * @generated from message crypto_stream.UpdateStreamFilterRequest
+ */
+export class UpdateStreamFilterRequest extends Message<UpdateStreamFilterRequest> {
+  /**
+   * @generated from field: string stream_id = 1;
+   */
+  streamId = "";
+
+  /**
+   * SYMBOL or EXCHANGE:SYMBOL, empty = all
+   *
+   * @generated from field: repeated string tickers = 2;
+   */
+  tickers: string[] = [];
+
+  /**
+   * empty = all
+   *
+   * @generated from field: string exchange = 3;
+   */
+  exchange = "";
+
+  constructor(data?: PartialMessage<UpdateStreamFilterRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.UpdateStreamFilterRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "stream_id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "tickers", kind: "scalar", T: 9 /* ScalarType.STRING */, repeated: true },
+    { no: 3, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): UpdateStreamFilterRequest {
+    return new UpdateStreamFilterRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): UpdateStreamFilterRequest {
+    return new UpdateStreamFilterRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): UpdateStreamFilterRequest {
+    return new UpdateStreamFilterRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: UpdateStreamFilterRequest | PlainMessage<UpdateStreamFilterRequest> | undefined, b: UpdateStreamFilterRequest | PlainMessage<UpdateStreamFilterRequest> | undefined): boolean {
+    return proto3.util.equals(UpdateStreamFilterRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.UpdateStreamFilterResponse
+ */
+export class UpdateStreamFilterResponse extends Message<UpdateStreamFilterResponse> {
+  /**
+   * @generated from field: bool success = 1;
+   */
+  success = false;
+
+  /**
+   * @generated from field: string message = 2;
+   */
+  message = "";
+
+  constructor(data?: PartialMessage<UpdateStreamFilterResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.UpdateStreamFilterResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "success", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 2, name: "message", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): UpdateStreamFilterResponse {
+    return new UpdateStreamFilterResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): UpdateStreamFilterResponse {
+    return new UpdateStreamFilterResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): UpdateStreamFilterResponse {
+    return new UpdateStreamFilterResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: UpdateStreamFilterResponse | PlainMessage<UpdateStreamFilterResponse> | undefined, b: UpdateStreamFilterResponse | PlainMessage<UpdateStreamFilterResponse> | undefined): boolean {
+    return proto3.util.equals(UpdateStreamFilterResponse, a, b);
+  }
+}
+
 /**
  * Real-time price update
  *
@@ -219,6 +525,8 @@ export class PriceUpdate extends Message<PriceUpdate> {
   ticker = "";
 
   /**
+   * empty for status-only updates
+   *
    * @generated from field: string price = 2;
    */
   price = "";
@@ -229,7 +537,7 @@ export class PriceUpdate extends Message<PriceUpdate> {
   timestamp = protoInt64.zero;
 
   /**
-   * Will be "BINANCE" 
+   * e.g., "BINANCE", "COINBASE"
    *
    * @generated from field: string exchange = 4;
    */
@@ -240,6 +548,40 @@ export class PriceUpdate extends Message<PriceUpdate> {
    */
   removed = false;
 
+  /**
+   * @generated from field: crypto_stream.TickerStatus status = 6;
+   */
+  status = TickerStatus.UNSPECIFIED;
+
+  /**
+   * latest daily stats, unset if the source has none yet
+   *
+   * @generated from field: crypto_stream.Quote quote = 7;
+   */
+  quote?: Quote;
+
+  /**
+   * last update before the server ends the stream to shut down; ticker is empty
+   *
+   * @generated from field: bool shutdown = 8;
+   */
+  shutdown = false;
+
+  /**
+   * Increases with every update the server sends out; snapshot updates carry the latest sequence
+   * at the time. Pass the last one seen as resume_from when reconnecting.
+   *
+   * @generated from field: uint64 sequence = 9;
+   */
+  sequence = protoInt64.zero;
+
+  /**
+   * resume_from couldn't be replayed: drop every ticker, a full snapshot follows; ticker is empty
+   *
+   * @generated from field: bool reset = 10;
+   */
+  reset = false;
+
   constructor(data?: PartialMessage<PriceUpdate>) {
     super();
     proto3.util.initPartial(data, this);
@@ -253,6 +595,11 @@ export class PriceUpdate extends Message<PriceUpdate> {
     { no: 3, name: "timestamp", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
     { no: 4, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
     { no: 5, name: "removed", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 6, name: "status", kind: "enum", T: proto3.getEnumType(TickerStatus) },
+    { no: 7, name: "quote", kind: "message", T: Quote },
+    { no: 8, name: "shutdown", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 9, name: "sequence", kind: "scalar", T: 4 /* ScalarType.UINT64 */ },
+    { no: 10, name: "reset", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
   ]);
 
   static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): PriceUpdate {
@@ -273,80 +620,259 @@ export class PriceUpdate extends Message<PriceUpdate> {
 }
 
 /**
- * Ticker info with price data
+ * Daily stats shown next to the price. Values are exact decimal strings like price;
+ * a field is empty when the source doesn't show it.
  *
- * @generated from message crypto_stream.TickerInfo
+ * @generated from message crypto_stream.Quote
  */
-export class TickerInfo extends Message<TickerInfo> {
+export class Quote extends Message<Quote> {
   /**
-   * @generated from field: string symbol = 1;
+   * absolute change since the daily open, e.g. "-120.50"
+   *
+   * @generated from field: string change = 1;
    */
-  symbol = "";
+  change = "";
 
   /**
-   * @generated from field: string current_price = 2;
+   * e.g. "-0.18"
+   *
+   * @generated from field: string change_percent = 2;
    */
-  currentPrice = "";
+  changePercent = "";
 
   /**
-   * @generated from field: string last_updated = 3;
+   * 24h volume in base units
+   *
+   * @generated from field: string volume = 3;
    */
-  lastUpdated = "";
+  volume = "";
 
-  constructor(data?: PartialMessage<TickerInfo>) {
+  /**
+   * @generated from field: string day_high = 4;
+   */
+  dayHigh = "";
+
+  /**
+   * @generated from field: string day_low = 5;
+   */
+  dayLow = "";
+
+  /**
+   * @generated from field: string bid = 6;
+   */
+  bid = "";
+
+  /**
+   * @generated from field: string ask = 7;
+   */
+  ask = "";
+
+  constructor(data?: PartialMessage<Quote>) {
     super();
     proto3.util.initPartial(data, this);
   }
 
   static readonly runtime: typeof proto3 = proto3;
-  static readonly typeName = "crypto_stream.TickerInfo";
+  static readonly typeName = "crypto_stream.Quote";
   static readonly fields: FieldList = proto3.util.newFieldList(() => [
-    { no: 1, name: "symbol", kind: "scalar", T: 9 /* ScalarType.STRING */ },
-    { no: 2, name: "current_price", kind: "scalar", T: 9 /* ScalarType.STRING */ },
-    { no: 3, name: "last_updated", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 1, name: "change", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "change_percent", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "volume", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 4, name: "day_high", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 5, name: "day_low", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 6, name: "bid", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 7, name: "ask", kind: "scalar", T: 9 /* ScalarType.STRING */ },
   ]);
 
-  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): TickerInfo {
-    return new TickerInfo().fromBinary(bytes, options);
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): Quote {
+    return new Quote().fromBinary(bytes, options);
   }
 
-  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): TickerInfo {
-    return new TickerInfo().fromJson(jsonValue, options);
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): Quote {
+    return new Quote().fromJson(jsonValue, options);
   }
 
-  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): TickerInfo {
-    return new TickerInfo().fromJsonString(jsonString, options);
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): Quote {
+    return new Quote().fromJsonString(jsonString, options);
   }
 
-  static equals(a: TickerInfo | PlainMessage<TickerInfo> | undefined, b: TickerInfo | PlainMessage<TickerInfo> | undefined): boolean {
-    return proto3.util.equals(TickerInfo, a, b);
+  static equals(a: Quote | PlainMessage<Quote> | undefined, b: Quote | PlainMessage<Quote> | undefined): boolean {
+    return proto3.util.equals(Quote, a, b);
   }
 }
 
 /**
- * Returns TickerInfo objects
+ * Ticker info with price data
  *
- * @generated from message crypto_stream.GetActiveTickersResponse
+ * @generated from message crypto_stream.TickerInfo
  */
-export class GetActiveTickersResponse extends Message<GetActiveTickersResponse> {
+export class TickerInfo extends Message<TickerInfo> {
   /**
-   * @generated from field: repeated crypto_stream.TickerInfo tickers = 1;
+   * @generated from field: string symbol = 1;
    */
-  tickers: TickerInfo[] = [];
+  symbol = "";
 
-  constructor(data?: PartialMessage<GetActiveTickersResponse>) {
-    super();
-    proto3.util.initPartial(data, this);
-  }
+  /**
+   * empty until the first tick arrives
+   *
+   * @generated from field: string current_price = 2;
+   */
+  currentPrice = "";
 
-  static readonly runtime: typeof proto3 = proto3;
-  static readonly typeName = "crypto_stream.GetActiveTickersResponse";
-  static readonly fields: FieldList = proto3.util.newFieldList(() => [
-    { no: 1, name: "tickers", kind: "message", T: TickerInfo, repeated: true },
-  ]);
+  /**
+   * ISO 8601, empty until the first tick arrives
+   *
+   * @generated from field: string last_updated = 3;
+   */
+  lastUpdated = "";
 
-  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): GetActiveTickersResponse {
-    return new GetActiveTickersResponse().fromBinary(bytes, options);
+  /**
+   * @generated from field: string exchange = 4;
+   */
+  exchange = "";
+
+  /**
+   * false while the price feed is still being set up
+   *
+   * @generated from field: bool subscribed = 5;
+   */
+  subscribed = false;
+
+  /**
+   * @generated from field: crypto_stream.TickerStatus status = 6;
+   */
+  status = TickerStatus.UNSPECIFIED;
+
+  /**
+   * ISO 8601
+   *
+   * @generated from field: string added_at = 7;
+   */
+  addedAt = "";
+
+  /**
+   * unset until the source reports daily stats
+   *
+   * @generated from field: crypto_stream.Quote quote = 8;
+   */
+  quote?: Quote;
+
+  /**
+   * API key name, empty when auth is disabled
+   *
+   * @generated from field: string added_by = 9;
+   */
+  addedBy = "";
+
+  /**
+   * watchlists that include this ticker and share its feed
+   *
+   * @generated from field: uint32 watchlist_count = 10;
+   */
+  watchlistCount = 0;
+
+  constructor(data?: PartialMessage<TickerInfo>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.TickerInfo";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "symbol", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "current_price", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "last_updated", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 4, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 5, name: "subscribed", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 6, name: "status", kind: "enum", T: proto3.getEnumType(TickerStatus) },
+    { no: 7, name: "added_at", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 8, name: "quote", kind: "message", T: Quote },
+    { no: 9, name: "added_by", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 10, name: "watchlist_count", kind: "scalar", T: 13 /* ScalarType.UINT32 */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): TickerInfo {
+    return new TickerInfo().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): TickerInfo {
+    return new TickerInfo().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): TickerInfo {
+    return new TickerInfo().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: TickerInfo | PlainMessage<TickerInfo> | undefined, b: TickerInfo | PlainMessage<TickerInfo> | undefined): boolean {
+    return proto3.util.equals(TickerInfo, a, b);
+  }
+}
+
+/**
+ * Request for a snapshot of the tickers in a watchlist
+ *
+ * @generated from message crypto_stream.GetActiveTickersRequest
+ */
+export class GetActiveTickersRequest extends Message<GetActiveTickersRequest> {
+  /**
+   * empty = the caller's default watchlist
+   *
+   * @generated from field: string watchlist_id = 1;
+   */
+  watchlistId = "";
+
+  constructor(data?: PartialMessage<GetActiveTickersRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.GetActiveTickersRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "watchlist_id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): GetActiveTickersRequest {
+    return new GetActiveTickersRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): GetActiveTickersRequest {
+    return new GetActiveTickersRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): GetActiveTickersRequest {
+    return new GetActiveTickersRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: GetActiveTickersRequest | PlainMessage<GetActiveTickersRequest> | undefined, b: GetActiveTickersRequest | PlainMessage<GetActiveTickersRequest> | undefined): boolean {
+    return proto3.util.equals(GetActiveTickersRequest, a, b);
+  }
+}
+
+/**
+ * Returns TickerInfo objects
+ *
+ * @generated from message crypto_stream.GetActiveTickersResponse
+ */
+export class GetActiveTickersResponse extends Message<GetActiveTickersResponse> {
+  /**
+   * @generated from field: repeated crypto_stream.TickerInfo tickers = 1;
+   */
+  tickers: TickerInfo[] = [];
+
+  constructor(data?: PartialMessage<GetActiveTickersResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.GetActiveTickersResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "tickers", kind: "message", T: TickerInfo, repeated: true },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): GetActiveTickersResponse {
+    return new GetActiveTickersResponse().fromBinary(bytes, options);
   }
 
   static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): GetActiveTickersResponse {
@@ -362,3 +888,1860 @@ export class GetActiveTickersResponse extends Message<GetActiveTickersResponse>
   }
 }
 
+/**
+ * Request recorded ticks for a ticker
+ *
+ * @generated from message crypto_stream.GetPriceHistoryRequest
+ */
+export class GetPriceHistoryRequest extends Message<GetPriceHistoryRequest> {
+  /**
+   * @generated from field: string ticker = 1;
+   */
+  ticker = "";
+
+  /**
+   * empty = BINANCE
+   *
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * ms since epoch, 0 = no lower bound
+   *
+   * @generated from field: int64 from = 3;
+   */
+  from = protoInt64.zero;
+
+  /**
+   * ms since epoch, 0 = no upper bound
+   *
+   * @generated from field: int64 to = 4;
+   */
+  to = protoInt64.zero;
+
+  /**
+   * max points, most recent kept; 0 = server default
+   *
+   * @generated from field: uint32 limit = 5;
+   */
+  limit = 0;
+
+  constructor(data?: PartialMessage<GetPriceHistoryRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.GetPriceHistoryRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "from", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+    { no: 4, name: "to", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+    { no: 5, name: "limit", kind: "scalar", T: 13 /* ScalarType.UINT32 */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): GetPriceHistoryRequest {
+    return new GetPriceHistoryRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): GetPriceHistoryRequest {
+    return new GetPriceHistoryRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): GetPriceHistoryRequest {
+    return new GetPriceHistoryRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: GetPriceHistoryRequest | PlainMessage<GetPriceHistoryRequest> | undefined, b: GetPriceHistoryRequest | PlainMessage<GetPriceHistoryRequest> | undefined): boolean {
+    return proto3.util.equals(GetPriceHistoryRequest, a, b);
+  }
+}
+
+/**
+ * A single recorded tick
+ *
+ * @generated from message crypto_stream.PricePoint
+ */
+export class PricePoint extends Message<PricePoint> {
+  /**
+   * @generated from field: string price = 1;
+   */
+  price = "";
+
+  /**
+   * @generated from field: int64 timestamp = 2;
+   */
+  timestamp = protoInt64.zero;
+
+  constructor(data?: PartialMessage<PricePoint>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.PricePoint";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "price", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "timestamp", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): PricePoint {
+    return new PricePoint().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): PricePoint {
+    return new PricePoint().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): PricePoint {
+    return new PricePoint().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: PricePoint | PlainMessage<PricePoint> | undefined, b: PricePoint | PlainMessage<PricePoint> | undefined): boolean {
+    return proto3.util.equals(PricePoint, a, b);
+  }
+}
+
+/**
+ * Recorded ticks, oldest first
+ *
+ * @generated from message crypto_stream.GetPriceHistoryResponse
+ */
+export class GetPriceHistoryResponse extends Message<GetPriceHistoryResponse> {
+  /**
+   * @generated from field: string ticker = 1;
+   */
+  ticker = "";
+
+  /**
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * @generated from field: repeated crypto_stream.PricePoint points = 3;
+   */
+  points: PricePoint[] = [];
+
+  constructor(data?: PartialMessage<GetPriceHistoryResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.GetPriceHistoryResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "points", kind: "message", T: PricePoint, repeated: true },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): GetPriceHistoryResponse {
+    return new GetPriceHistoryResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): GetPriceHistoryResponse {
+    return new GetPriceHistoryResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): GetPriceHistoryResponse {
+    return new GetPriceHistoryResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: GetPriceHistoryResponse | PlainMessage<GetPriceHistoryResponse> | undefined, b: GetPriceHistoryResponse | PlainMessage<GetPriceHistoryResponse> | undefined): boolean {
+    return proto3.util.equals(GetPriceHistoryResponse, a, b);
+  }
+}
+
+/**
+ * OHLC candle for one interval bucket
+ *
+ * @generated from message crypto_stream.Candle
+ */
+export class Candle extends Message<Candle> {
+  /**
+   * @generated from field: string ticker = 1;
+   */
+  ticker = "";
+
+  /**
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * e.g. "1s", "1m", "5m", "1h"
+   *
+   * @generated from field: string interval = 3;
+   */
+  interval = "";
+
+  /**
+   * bucket start, ms since epoch
+   *
+   * @generated from field: int64 start = 4;
+   */
+  start = protoInt64.zero;
+
+  /**
+   * @generated from field: string open = 5;
+   */
+  open = "";
+
+  /**
+   * @generated from field: string high = 6;
+   */
+  high = "";
+
+  /**
+   * @generated from field: string low = 7;
+   */
+  low = "";
+
+  /**
+   * @generated from field: string close = 8;
+   */
+  close = "";
+
+  /**
+   * @generated from field: uint32 tick_count = 9;
+   */
+  tickCount = 0;
+
+  /**
+   * false while the bucket is still in progress
+   *
+   * @generated from field: bool closed = 10;
+   */
+  closed = false;
+
+  constructor(data?: PartialMessage<Candle>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.Candle";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "interval", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 4, name: "start", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+    { no: 5, name: "open", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 6, name: "high", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 7, name: "low", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 8, name: "close", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 9, name: "tick_count", kind: "scalar", T: 13 /* ScalarType.UINT32 */ },
+    { no: 10, name: "closed", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): Candle {
+    return new Candle().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): Candle {
+    return new Candle().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): Candle {
+    return new Candle().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: Candle | PlainMessage<Candle> | undefined, b: Candle | PlainMessage<Candle> | undefined): boolean {
+    return proto3.util.equals(Candle, a, b);
+  }
+}
+
+/**
+ * Request to stream candles
+ *
+ * @generated from message crypto_stream.StreamCandlesRequest
+ */
+export class StreamCandlesRequest extends Message<StreamCandlesRequest> {
+  /**
+   * SYMBOL or EXCHANGE:SYMBOL, empty = all
+   *
+   * @generated from field: repeated string tickers = 1;
+   */
+  tickers: string[] = [];
+
+  /**
+   * empty = all
+   *
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * one of the server's configured intervals
+   *
+   * @generated from field: string interval = 3;
+   */
+  interval = "";
+
+  constructor(data?: PartialMessage<StreamCandlesRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.StreamCandlesRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "tickers", kind: "scalar", T: 9 /* ScalarType.STRING */, repeated: true },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "interval", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): StreamCandlesRequest {
+    return new StreamCandlesRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): StreamCandlesRequest {
+    return new StreamCandlesRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): StreamCandlesRequest {
+    return new StreamCandlesRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: StreamCandlesRequest | PlainMessage<StreamCandlesRequest> | undefined, b: StreamCandlesRequest | PlainMessage<StreamCandlesRequest> | undefined): boolean {
+    return proto3.util.equals(StreamCandlesRequest, a, b);
+  }
+}
+
+/**
+ * Request candles built from recorded ticks
+ *
+ * @generated from message crypto_stream.GetCandlesRequest
+ */
+export class GetCandlesRequest extends Message<GetCandlesRequest> {
+  /**
+   * @generated from field: string ticker = 1;
+   */
+  ticker = "";
+
+  /**
+   * empty = BINANCE
+   *
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * e.g. "1s", "1m", "5m", "1h"
+   *
+   * @generated from field: string interval = 3;
+   */
+  interval = "";
+
+  /**
+   * ms since epoch, 0 = no lower bound
+   *
+   * @generated from field: int64 from = 4;
+   */
+  from = protoInt64.zero;
+
+  /**
+   * ms since epoch, 0 = no upper bound
+   *
+   * @generated from field: int64 to = 5;
+   */
+  to = protoInt64.zero;
+
+  /**
+   * max candles, most recent kept; 0 = server default
+   *
+   * @generated from field: uint32 limit = 6;
+   */
+  limit = 0;
+
+  constructor(data?: PartialMessage<GetCandlesRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.GetCandlesRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "interval", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 4, name: "from", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+    { no: 5, name: "to", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+    { no: 6, name: "limit", kind: "scalar", T: 13 /* ScalarType.UINT32 */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): GetCandlesRequest {
+    return new GetCandlesRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): GetCandlesRequest {
+    return new GetCandlesRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): GetCandlesRequest {
+    return new GetCandlesRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: GetCandlesRequest | PlainMessage<GetCandlesRequest> | undefined, b: GetCandlesRequest | PlainMessage<GetCandlesRequest> | undefined): boolean {
+    return proto3.util.equals(GetCandlesRequest, a, b);
+  }
+}
+
+/**
+ * Candles, oldest first; the last one may still be in progress
+ *
+ * @generated from message crypto_stream.GetCandlesResponse
+ */
+export class GetCandlesResponse extends Message<GetCandlesResponse> {
+  /**
+   * @generated from field: repeated crypto_stream.Candle candles = 1;
+   */
+  candles: Candle[] = [];
+
+  constructor(data?: PartialMessage<GetCandlesResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.GetCandlesResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "candles", kind: "message", T: Candle, repeated: true },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): GetCandlesResponse {
+    return new GetCandlesResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): GetCandlesResponse {
+    return new GetCandlesResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): GetCandlesResponse {
+    return new GetCandlesResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: GetCandlesResponse | PlainMessage<GetCandlesResponse> | undefined, b: GetCandlesResponse | PlainMessage<GetCandlesResponse> | undefined): boolean {
+    return proto3.util.equals(GetCandlesResponse, a, b);
+  }
+}
+
+/**
+ * Alert rule for one ticker
+ *
+ * @generated from message crypto_stream.AlertRule
+ */
+export class AlertRule extends Message<AlertRule> {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id = "";
+
+  /**
+   * @generated from field: string ticker = 2;
+   */
+  ticker = "";
+
+  /**
+   * @generated from field: string exchange = 3;
+   */
+  exchange = "";
+
+  /**
+   * @generated from field: crypto_stream.AlertType type = 4;
+   */
+  type = AlertType.UNSPECIFIED;
+
+  /**
+   * price for above/below, percent for percent change
+   *
+   * @generated from field: double threshold = 5;
+   */
+  threshold = 0;
+
+  /**
+   * percent change window or silence before no-update fires
+   *
+   * @generated from field: uint32 window_seconds = 6;
+   */
+  windowSeconds = 0;
+
+  /**
+   * ms since epoch
+   *
+   * @generated from field: int64 created_at = 7;
+   */
+  createdAt = protoInt64.zero;
+
+  /**
+   * ms since epoch, 0 = never
+   *
+   * @generated from field: int64 last_triggered_at = 8;
+   */
+  lastTriggeredAt = protoInt64.zero;
+
+  /**
+   * API key name, empty when auth is disabled
+   *
+   * @generated from field: string created_by = 9;
+   */
+  createdBy = "";
+
+  constructor(data?: PartialMessage<AlertRule>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.AlertRule";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 4, name: "type", kind: "enum", T: proto3.getEnumType(AlertType) },
+    { no: 5, name: "threshold", kind: "scalar", T: 1 /* ScalarType.DOUBLE */ },
+    { no: 6, name: "window_seconds", kind: "scalar", T: 13 /* ScalarType.UINT32 */ },
+    { no: 7, name: "created_at", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+    { no: 8, name: "last_triggered_at", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+    { no: 9, name: "created_by", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): AlertRule {
+    return new AlertRule().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): AlertRule {
+    return new AlertRule().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): AlertRule {
+    return new AlertRule().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: AlertRule | PlainMessage<AlertRule> | undefined, b: AlertRule | PlainMessage<AlertRule> | undefined): boolean {
+    return proto3.util.equals(AlertRule, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.CreateAlertRequest
+ */
+export class CreateAlertRequest extends Message<CreateAlertRequest> {
+  /**
+   * @generated from field: string ticker = 1;
+   */
+  ticker = "";
+
+  /**
+   * empty = BINANCE
+   *
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * @generated from field: crypto_stream.AlertType type = 3;
+   */
+  type = AlertType.UNSPECIFIED;
+
+  /**
+   * @generated from field: double threshold = 4;
+   */
+  threshold = 0;
+
+  /**
+   * @generated from field: uint32 window_seconds = 5;
+   */
+  windowSeconds = 0;
+
+  constructor(data?: PartialMessage<CreateAlertRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.CreateAlertRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "type", kind: "enum", T: proto3.getEnumType(AlertType) },
+    { no: 4, name: "threshold", kind: "scalar", T: 1 /* ScalarType.DOUBLE */ },
+    { no: 5, name: "window_seconds", kind: "scalar", T: 13 /* ScalarType.UINT32 */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): CreateAlertRequest {
+    return new CreateAlertRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): CreateAlertRequest {
+    return new CreateAlertRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): CreateAlertRequest {
+    return new CreateAlertRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: CreateAlertRequest | PlainMessage<CreateAlertRequest> | undefined, b: CreateAlertRequest | PlainMessage<CreateAlertRequest> | undefined): boolean {
+    return proto3.util.equals(CreateAlertRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.CreateAlertResponse
+ */
+export class CreateAlertResponse extends Message<CreateAlertResponse> {
+  /**
+   * @generated from field: bool success = 1;
+   */
+  success = false;
+
+  /**
+   * @generated from field: string message = 2;
+   */
+  message = "";
+
+  /**
+   * @generated from field: crypto_stream.AlertRule alert = 3;
+   */
+  alert?: AlertRule;
+
+  constructor(data?: PartialMessage<CreateAlertResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.CreateAlertResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "success", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 2, name: "message", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "alert", kind: "message", T: AlertRule },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): CreateAlertResponse {
+    return new CreateAlertResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): CreateAlertResponse {
+    return new CreateAlertResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): CreateAlertResponse {
+    return new CreateAlertResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: CreateAlertResponse | PlainMessage<CreateAlertResponse> | undefined, b: CreateAlertResponse | PlainMessage<CreateAlertResponse> | undefined): boolean {
+    return proto3.util.equals(CreateAlertResponse, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.ListAlertsRequest
+ */
+export class ListAlertsRequest extends Message<ListAlertsRequest> {
+  /**
+   * empty = all
+   *
+   * @generated from field: string ticker = 1;
+   */
+  ticker = "";
+
+  /**
+   * empty = all
+   *
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  constructor(data?: PartialMessage<ListAlertsRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.ListAlertsRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): ListAlertsRequest {
+    return new ListAlertsRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): ListAlertsRequest {
+    return new ListAlertsRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): ListAlertsRequest {
+    return new ListAlertsRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: ListAlertsRequest | PlainMessage<ListAlertsRequest> | undefined, b: ListAlertsRequest | PlainMessage<ListAlertsRequest> | undefined): boolean {
+    return proto3.util.equals(ListAlertsRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.ListAlertsResponse
+ */
+export class ListAlertsResponse extends Message<ListAlertsResponse> {
+  /**
+   * @generated from field: repeated crypto_stream.AlertRule alerts = 1;
+   */
+  alerts: AlertRule[] = [];
+
+  constructor(data?: PartialMessage<ListAlertsResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.ListAlertsResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "alerts", kind: "message", T: AlertRule, repeated: true },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): ListAlertsResponse {
+    return new ListAlertsResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): ListAlertsResponse {
+    return new ListAlertsResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): ListAlertsResponse {
+    return new ListAlertsResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: ListAlertsResponse | PlainMessage<ListAlertsResponse> | undefined, b: ListAlertsResponse | PlainMessage<ListAlertsResponse> | undefined): boolean {
+    return proto3.util.equals(ListAlertsResponse, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.DeleteAlertRequest
+ */
+export class DeleteAlertRequest extends Message<DeleteAlertRequest> {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id = "";
+
+  constructor(data?: PartialMessage<DeleteAlertRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.DeleteAlertRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): DeleteAlertRequest {
+    return new DeleteAlertRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): DeleteAlertRequest {
+    return new DeleteAlertRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): DeleteAlertRequest {
+    return new DeleteAlertRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: DeleteAlertRequest | PlainMessage<DeleteAlertRequest> | undefined, b: DeleteAlertRequest | PlainMessage<DeleteAlertRequest> | undefined): boolean {
+    return proto3.util.equals(DeleteAlertRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.DeleteAlertResponse
+ */
+export class DeleteAlertResponse extends Message<DeleteAlertResponse> {
+  /**
+   * @generated from field: bool success = 1;
+   */
+  success = false;
+
+  /**
+   * @generated from field: string message = 2;
+   */
+  message = "";
+
+  constructor(data?: PartialMessage<DeleteAlertResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.DeleteAlertResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "success", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 2, name: "message", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): DeleteAlertResponse {
+    return new DeleteAlertResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): DeleteAlertResponse {
+    return new DeleteAlertResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): DeleteAlertResponse {
+    return new DeleteAlertResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: DeleteAlertResponse | PlainMessage<DeleteAlertResponse> | undefined, b: DeleteAlertResponse | PlainMessage<DeleteAlertResponse> | undefined): boolean {
+    return proto3.util.equals(DeleteAlertResponse, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.StreamAlertsRequest
+ */
+export class StreamAlertsRequest extends Message<StreamAlertsRequest> {
+  constructor(data?: PartialMessage<StreamAlertsRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.StreamAlertsRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): StreamAlertsRequest {
+    return new StreamAlertsRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): StreamAlertsRequest {
+    return new StreamAlertsRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): StreamAlertsRequest {
+    return new StreamAlertsRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: StreamAlertsRequest | PlainMessage<StreamAlertsRequest> | undefined, b: StreamAlertsRequest | PlainMessage<StreamAlertsRequest> | undefined): boolean {
+    return proto3.util.equals(StreamAlertsRequest, a, b);
+  }
+}
+
+/**
+ * A triggered alert
+ *
+ * @generated from message crypto_stream.AlertNotification
+ */
+export class AlertNotification extends Message<AlertNotification> {
+  /**
+   * @generated from field: crypto_stream.AlertRule alert = 1;
+   */
+  alert?: AlertRule;
+
+  /**
+   * price that triggered it, empty for no-update alerts
+   *
+   * @generated from field: string price = 2;
+   */
+  price = "";
+
+  /**
+   * @generated from field: int64 timestamp = 3;
+   */
+  timestamp = protoInt64.zero;
+
+  /**
+   * @generated from field: string message = 4;
+   */
+  message = "";
+
+  constructor(data?: PartialMessage<AlertNotification>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.AlertNotification";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "alert", kind: "message", T: AlertRule },
+    { no: 2, name: "price", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "timestamp", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+    { no: 4, name: "message", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): AlertNotification {
+    return new AlertNotification().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): AlertNotification {
+    return new AlertNotification().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): AlertNotification {
+    return new AlertNotification().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: AlertNotification | PlainMessage<AlertNotification> | undefined, b: AlertNotification | PlainMessage<AlertNotification> | undefined): boolean {
+    return proto3.util.equals(AlertNotification, a, b);
+  }
+}
+
+/**
+ * Named set of tickers owned by one user (API key name) or browser session. Tickers in several
+ * watchlists share one price feed, which stops when the last watchlist drops the ticker.
+ *
+ * @generated from message crypto_stream.Watchlist
+ */
+export class Watchlist extends Message<Watchlist> {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id = "";
+
+  /**
+   * @generated from field: string name = 2;
+   */
+  name = "";
+
+  /**
+   * @generated from field: string owner = 3;
+   */
+  owner = "";
+
+  /**
+   * "EXCHANGE:SYMBOL", e.g. "BINANCE:BTCUSDT"
+   *
+   * @generated from field: repeated string tickers = 4;
+   */
+  tickers: string[] = [];
+
+  /**
+   * the watchlist used when a request names none; can't be deleted
+   *
+   * @generated from field: bool is_default = 5;
+   */
+  isDefault = false;
+
+  /**
+   * ms since epoch
+   *
+   * @generated from field: int64 created_at = 6;
+   */
+  createdAt = protoInt64.zero;
+
+  constructor(data?: PartialMessage<Watchlist>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.Watchlist";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "name", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "owner", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 4, name: "tickers", kind: "scalar", T: 9 /* ScalarType.STRING */, repeated: true },
+    { no: 5, name: "is_default", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 6, name: "created_at", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): Watchlist {
+    return new Watchlist().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): Watchlist {
+    return new Watchlist().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): Watchlist {
+    return new Watchlist().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: Watchlist | PlainMessage<Watchlist> | undefined, b: Watchlist | PlainMessage<Watchlist> | undefined): boolean {
+    return proto3.util.equals(Watchlist, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.CreateWatchlistRequest
+ */
+export class CreateWatchlistRequest extends Message<CreateWatchlistRequest> {
+  /**
+   * @generated from field: string name = 1;
+   */
+  name = "";
+
+  constructor(data?: PartialMessage<CreateWatchlistRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.CreateWatchlistRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "name", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): CreateWatchlistRequest {
+    return new CreateWatchlistRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): CreateWatchlistRequest {
+    return new CreateWatchlistRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): CreateWatchlistRequest {
+    return new CreateWatchlistRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: CreateWatchlistRequest | PlainMessage<CreateWatchlistRequest> | undefined, b: CreateWatchlistRequest | PlainMessage<CreateWatchlistRequest> | undefined): boolean {
+    return proto3.util.equals(CreateWatchlistRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.CreateWatchlistResponse
+ */
+export class CreateWatchlistResponse extends Message<CreateWatchlistResponse> {
+  /**
+   * @generated from field: bool success = 1;
+   */
+  success = false;
+
+  /**
+   * @generated from field: string message = 2;
+   */
+  message = "";
+
+  /**
+   * @generated from field: crypto_stream.Watchlist watchlist = 3;
+   */
+  watchlist?: Watchlist;
+
+  constructor(data?: PartialMessage<CreateWatchlistResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.CreateWatchlistResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "success", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 2, name: "message", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "watchlist", kind: "message", T: Watchlist },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): CreateWatchlistResponse {
+    return new CreateWatchlistResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): CreateWatchlistResponse {
+    return new CreateWatchlistResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): CreateWatchlistResponse {
+    return new CreateWatchlistResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: CreateWatchlistResponse | PlainMessage<CreateWatchlistResponse> | undefined, b: CreateWatchlistResponse | PlainMessage<CreateWatchlistResponse> | undefined): boolean {
+    return proto3.util.equals(CreateWatchlistResponse, a, b);
+  }
+}
+
+/**
+ * Lists the caller's watchlists, default first
+ *
+ * @generated from message crypto_stream.ListWatchlistsRequest
+ */
+export class ListWatchlistsRequest extends Message<ListWatchlistsRequest> {
+  constructor(data?: PartialMessage<ListWatchlistsRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.ListWatchlistsRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): ListWatchlistsRequest {
+    return new ListWatchlistsRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): ListWatchlistsRequest {
+    return new ListWatchlistsRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): ListWatchlistsRequest {
+    return new ListWatchlistsRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: ListWatchlistsRequest | PlainMessage<ListWatchlistsRequest> | undefined, b: ListWatchlistsRequest | PlainMessage<ListWatchlistsRequest> | undefined): boolean {
+    return proto3.util.equals(ListWatchlistsRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.ListWatchlistsResponse
+ */
+export class ListWatchlistsResponse extends Message<ListWatchlistsResponse> {
+  /**
+   * @generated from field: repeated crypto_stream.Watchlist watchlists = 1;
+   */
+  watchlists: Watchlist[] = [];
+
+  constructor(data?: PartialMessage<ListWatchlistsResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.ListWatchlistsResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "watchlists", kind: "message", T: Watchlist, repeated: true },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): ListWatchlistsResponse {
+    return new ListWatchlistsResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): ListWatchlistsResponse {
+    return new ListWatchlistsResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): ListWatchlistsResponse {
+    return new ListWatchlistsResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: ListWatchlistsResponse | PlainMessage<ListWatchlistsResponse> | undefined, b: ListWatchlistsResponse | PlainMessage<ListWatchlistsResponse> | undefined): boolean {
+    return proto3.util.equals(ListWatchlistsResponse, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.DeleteWatchlistRequest
+ */
+export class DeleteWatchlistRequest extends Message<DeleteWatchlistRequest> {
+  /**
+   * @generated from field: string id = 1;
+   */
+  id = "";
+
+  constructor(data?: PartialMessage<DeleteWatchlistRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.DeleteWatchlistRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): DeleteWatchlistRequest {
+    return new DeleteWatchlistRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): DeleteWatchlistRequest {
+    return new DeleteWatchlistRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): DeleteWatchlistRequest {
+    return new DeleteWatchlistRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: DeleteWatchlistRequest | PlainMessage<DeleteWatchlistRequest> | undefined, b: DeleteWatchlistRequest | PlainMessage<DeleteWatchlistRequest> | undefined): boolean {
+    return proto3.util.equals(DeleteWatchlistRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.DeleteWatchlistResponse
+ */
+export class DeleteWatchlistResponse extends Message<DeleteWatchlistResponse> {
+  /**
+   * @generated from field: bool success = 1;
+   */
+  success = false;
+
+  /**
+   * @generated from field: string message = 2;
+   */
+  message = "";
+
+  constructor(data?: PartialMessage<DeleteWatchlistResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.DeleteWatchlistResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "success", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 2, name: "message", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): DeleteWatchlistResponse {
+    return new DeleteWatchlistResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): DeleteWatchlistResponse {
+    return new DeleteWatchlistResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): DeleteWatchlistResponse {
+    return new DeleteWatchlistResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: DeleteWatchlistResponse | PlainMessage<DeleteWatchlistResponse> | undefined, b: DeleteWatchlistResponse | PlainMessage<DeleteWatchlistResponse> | undefined): boolean {
+    return proto3.util.equals(DeleteWatchlistResponse, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.SearchSymbolsRequest
+ */
+export class SearchSymbolsRequest extends Message<SearchSymbolsRequest> {
+  /**
+   * matched against symbols and descriptions, e.g. "btc", "ethereum"
+   *
+   * @generated from field: string query = 1;
+   */
+  query = "";
+
+  /**
+   * empty = every exchange
+   *
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * 0 = 20, at most 100
+   *
+   * @generated from field: int32 limit = 3;
+   */
+  limit = 0;
+
+  constructor(data?: PartialMessage<SearchSymbolsRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.SearchSymbolsRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "query", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "limit", kind: "scalar", T: 5 /* ScalarType.INT32 */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): SearchSymbolsRequest {
+    return new SearchSymbolsRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): SearchSymbolsRequest {
+    return new SearchSymbolsRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): SearchSymbolsRequest {
+    return new SearchSymbolsRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: SearchSymbolsRequest | PlainMessage<SearchSymbolsRequest> | undefined, b: SearchSymbolsRequest | PlainMessage<SearchSymbolsRequest> | undefined): boolean {
+    return proto3.util.equals(SearchSymbolsRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.SymbolInfo
+ */
+export class SymbolInfo extends Message<SymbolInfo> {
+  /**
+   * e.g. "BTCUSDT"
+   *
+   * @generated from field: string symbol = 1;
+   */
+  symbol = "";
+
+  /**
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * e.g. "Bitcoin / TetherUS"
+   *
+   * @generated from field: string description = 3;
+   */
+  description = "";
+
+  constructor(data?: PartialMessage<SymbolInfo>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.SymbolInfo";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "symbol", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "description", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): SymbolInfo {
+    return new SymbolInfo().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): SymbolInfo {
+    return new SymbolInfo().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): SymbolInfo {
+    return new SymbolInfo().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: SymbolInfo | PlainMessage<SymbolInfo> | undefined, b: SymbolInfo | PlainMessage<SymbolInfo> | undefined): boolean {
+    return proto3.util.equals(SymbolInfo, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.SearchSymbolsResponse
+ */
+export class SearchSymbolsResponse extends Message<SearchSymbolsResponse> {
+  /**
+   * best matches first
+   *
+   * @generated from field: repeated crypto_stream.SymbolInfo symbols = 1;
+   */
+  symbols: SymbolInfo[] = [];
+
+  /**
+   * ms since epoch when the catalog was last refreshed; 0 = bundled catalog
+   *
+   * @generated from field: int64 catalog_updated_at = 2;
+   */
+  catalogUpdatedAt = protoInt64.zero;
+
+  constructor(data?: PartialMessage<SearchSymbolsResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.SearchSymbolsResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "symbols", kind: "message", T: SymbolInfo, repeated: true },
+    { no: 2, name: "catalog_updated_at", kind: "scalar", T: 3 /* ScalarType.INT64 */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): SearchSymbolsResponse {
+    return new SearchSymbolsResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): SearchSymbolsResponse {
+    return new SearchSymbolsResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): SearchSymbolsResponse {
+    return new SearchSymbolsResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: SearchSymbolsResponse | PlainMessage<SearchSymbolsResponse> | undefined, b: SearchSymbolsResponse | PlainMessage<SearchSymbolsResponse> | undefined): boolean {
+    return proto3.util.equals(SearchSymbolsResponse, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.TickerRef
+ */
+export class TickerRef extends Message<TickerRef> {
+  /**
+   * @generated from field: string ticker = 1;
+   */
+  ticker = "";
+
+  /**
+   * empty = BINANCE
+   *
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  constructor(data?: PartialMessage<TickerRef>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.TickerRef";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): TickerRef {
+    return new TickerRef().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): TickerRef {
+    return new TickerRef().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): TickerRef {
+    return new TickerRef().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: TickerRef | PlainMessage<TickerRef> | undefined, b: TickerRef | PlainMessage<TickerRef> | undefined): boolean {
+    return proto3.util.equals(TickerRef, a, b);
+  }
+}
+
+/**
+ * Outcome for one ticker of a batch; the batch itself succeeds even if some tickers fail
+ *
+ * @generated from message crypto_stream.TickerResult
+ */
+export class TickerResult extends Message<TickerResult> {
+  /**
+   * @generated from field: string ticker = 1;
+   */
+  ticker = "";
+
+  /**
+   * @generated from field: string exchange = 2;
+   */
+  exchange = "";
+
+  /**
+   * @generated from field: bool success = 3;
+   */
+  success = false;
+
+  /**
+   * @generated from field: string message = 4;
+   */
+  message = "";
+
+  /**
+   * error code when the ticker hit a limit or error, e.g. "resource_exhausted"; empty otherwise
+   *
+   * @generated from field: string code = 5;
+   */
+  code = "";
+
+  constructor(data?: PartialMessage<TickerResult>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.TickerResult";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "ticker", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "exchange", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "success", kind: "scalar", T: 8 /* ScalarType.BOOL */ },
+    { no: 4, name: "message", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 5, name: "code", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): TickerResult {
+    return new TickerResult().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): TickerResult {
+    return new TickerResult().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): TickerResult {
+    return new TickerResult().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: TickerResult | PlainMessage<TickerResult> | undefined, b: TickerResult | PlainMessage<TickerResult> | undefined): boolean {
+    return proto3.util.equals(TickerResult, a, b);
+  }
+}
+
+/**
+ * At most 100 tickers per batch; new tickers are validated in parallel, within the server's limits
+ *
+ * @generated from message crypto_stream.AddTickersRequest
+ */
+export class AddTickersRequest extends Message<AddTickersRequest> {
+  /**
+   * @generated from field: repeated crypto_stream.TickerRef tickers = 1;
+   */
+  tickers: TickerRef[] = [];
+
+  /**
+   * empty = the caller's default watchlist
+   *
+   * @generated from field: string watchlist_id = 2;
+   */
+  watchlistId = "";
+
+  constructor(data?: PartialMessage<AddTickersRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.AddTickersRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "tickers", kind: "message", T: TickerRef, repeated: true },
+    { no: 2, name: "watchlist_id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): AddTickersRequest {
+    return new AddTickersRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): AddTickersRequest {
+    return new AddTickersRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): AddTickersRequest {
+    return new AddTickersRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: AddTickersRequest | PlainMessage<AddTickersRequest> | undefined, b: AddTickersRequest | PlainMessage<AddTickersRequest> | undefined): boolean {
+    return proto3.util.equals(AddTickersRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.AddTickersResponse
+ */
+export class AddTickersResponse extends Message<AddTickersResponse> {
+  /**
+   * in request order
+   *
+   * @generated from field: repeated crypto_stream.TickerResult results = 1;
+   */
+  results: TickerResult[] = [];
+
+  constructor(data?: PartialMessage<AddTickersResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.AddTickersResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "results", kind: "message", T: TickerResult, repeated: true },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): AddTickersResponse {
+    return new AddTickersResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): AddTickersResponse {
+    return new AddTickersResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): AddTickersResponse {
+    return new AddTickersResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: AddTickersResponse | PlainMessage<AddTickersResponse> | undefined, b: AddTickersResponse | PlainMessage<AddTickersResponse> | undefined): boolean {
+    return proto3.util.equals(AddTickersResponse, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.RemoveTickersRequest
+ */
+export class RemoveTickersRequest extends Message<RemoveTickersRequest> {
+  /**
+   * @generated from field: repeated crypto_stream.TickerRef tickers = 1;
+   */
+  tickers: TickerRef[] = [];
+
+  /**
+   * empty = the caller's default watchlist
+   *
+   * @generated from field: string watchlist_id = 2;
+   */
+  watchlistId = "";
+
+  constructor(data?: PartialMessage<RemoveTickersRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.RemoveTickersRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "tickers", kind: "message", T: TickerRef, repeated: true },
+    { no: 2, name: "watchlist_id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): RemoveTickersRequest {
+    return new RemoveTickersRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): RemoveTickersRequest {
+    return new RemoveTickersRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): RemoveTickersRequest {
+    return new RemoveTickersRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: RemoveTickersRequest | PlainMessage<RemoveTickersRequest> | undefined, b: RemoveTickersRequest | PlainMessage<RemoveTickersRequest> | undefined): boolean {
+    return proto3.util.equals(RemoveTickersRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.RemoveTickersResponse
+ */
+export class RemoveTickersResponse extends Message<RemoveTickersResponse> {
+  /**
+   * in request order
+   *
+   * @generated from field: repeated crypto_stream.TickerResult results = 1;
+   */
+  results: TickerResult[] = [];
+
+  constructor(data?: PartialMessage<RemoveTickersResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.RemoveTickersResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "results", kind: "message", T: TickerResult, repeated: true },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): RemoveTickersResponse {
+    return new RemoveTickersResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): RemoveTickersResponse {
+    return new RemoveTickersResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): RemoveTickersResponse {
+    return new RemoveTickersResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: RemoveTickersResponse | PlainMessage<RemoveTickersResponse> | undefined, b: RemoveTickersResponse | PlainMessage<RemoveTickersResponse> | undefined): boolean {
+    return proto3.util.equals(RemoveTickersResponse, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.ExportWatchlistRequest
+ */
+export class ExportWatchlistRequest extends Message<ExportWatchlistRequest> {
+  /**
+   * empty = the caller's default watchlist
+   *
+   * @generated from field: string watchlist_id = 1;
+   */
+  watchlistId = "";
+
+  /**
+   * @generated from field: crypto_stream.WatchlistFormat format = 2;
+   */
+  format = WatchlistFormat.UNSPECIFIED;
+
+  constructor(data?: PartialMessage<ExportWatchlistRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.ExportWatchlistRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "watchlist_id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "format", kind: "enum", T: proto3.getEnumType(WatchlistFormat) },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): ExportWatchlistRequest {
+    return new ExportWatchlistRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): ExportWatchlistRequest {
+    return new ExportWatchlistRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): ExportWatchlistRequest {
+    return new ExportWatchlistRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: ExportWatchlistRequest | PlainMessage<ExportWatchlistRequest> | undefined, b: ExportWatchlistRequest | PlainMessage<ExportWatchlistRequest> | undefined): boolean {
+    return proto3.util.equals(ExportWatchlistRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.ExportWatchlistResponse
+ */
+export class ExportWatchlistResponse extends Message<ExportWatchlistResponse> {
+  /**
+   * @generated from field: string content = 1;
+   */
+  content = "";
+
+  /**
+   * "application/json" or "text/csv"
+   *
+   * @generated from field: string content_type = 2;
+   */
+  contentType = "";
+
+  /**
+   * suggested file name, e.g. "majors.csv"
+   *
+   * @generated from field: string filename = 3;
+   */
+  filename = "";
+
+  constructor(data?: PartialMessage<ExportWatchlistResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.ExportWatchlistResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "content", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "content_type", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 3, name: "filename", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): ExportWatchlistResponse {
+    return new ExportWatchlistResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): ExportWatchlistResponse {
+    return new ExportWatchlistResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): ExportWatchlistResponse {
+    return new ExportWatchlistResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: ExportWatchlistResponse | PlainMessage<ExportWatchlistResponse> | undefined, b: ExportWatchlistResponse | PlainMessage<ExportWatchlistResponse> | undefined): boolean {
+    return proto3.util.equals(ExportWatchlistResponse, a, b);
+  }
+}
+
+/**
+ * Creates a new watchlist from a file, or adds the file's tickers to an existing one
+ *
+ * @generated from message crypto_stream.ImportWatchlistRequest
+ */
+export class ImportWatchlistRequest extends Message<ImportWatchlistRequest> {
+  /**
+   * @generated from field: string content = 1;
+   */
+  content = "";
+
+  /**
+   * @generated from field: crypto_stream.WatchlistFormat format = 2;
+   */
+  format = WatchlistFormat.UNSPECIFIED;
+
+  /**
+   * name of the new watchlist; empty = the name in a JSON file (required for CSV)
+   *
+   * @generated from field: string name = 3;
+   */
+  name = "";
+
+  /**
+   * import into this watchlist instead of creating one
+   *
+   * @generated from field: string watchlist_id = 4;
+   */
+  watchlistId = "";
+
+  constructor(data?: PartialMessage<ImportWatchlistRequest>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.ImportWatchlistRequest";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "content", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 2, name: "format", kind: "enum", T: proto3.getEnumType(WatchlistFormat) },
+    { no: 3, name: "name", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+    { no: 4, name: "watchlist_id", kind: "scalar", T: 9 /* ScalarType.STRING */ },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): ImportWatchlistRequest {
+    return new ImportWatchlistRequest().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): ImportWatchlistRequest {
+    return new ImportWatchlistRequest().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): ImportWatchlistRequest {
+    return new ImportWatchlistRequest().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: ImportWatchlistRequest | PlainMessage<ImportWatchlistRequest> | undefined, b: ImportWatchlistRequest | PlainMessage<ImportWatchlistRequest> | undefined): boolean {
+    return proto3.util.equals(ImportWatchlistRequest, a, b);
+  }
+}
+
+/**
+ * @generated from message crypto_stream.ImportWatchlistResponse
+ */
+export class ImportWatchlistResponse extends Message<ImportWatchlistResponse> {
+  /**
+   * after the import
+   *
+   * @generated from field: crypto_stream.Watchlist watchlist = 1;
+   */
+  watchlist?: Watchlist;
+
+  /**
+   * one per ticker in the file
+   *
+   * @generated from field: repeated crypto_stream.TickerResult results = 2;
+   */
+  results: TickerResult[] = [];
+
+  constructor(data?: PartialMessage<ImportWatchlistResponse>) {
+    super();
+    proto3.util.initPartial(data, this);
+  }
+
+  static readonly runtime: typeof proto3 = proto3;
+  static readonly typeName = "crypto_stream.ImportWatchlistResponse";
+  static readonly fields: FieldList = proto3.util.newFieldList(() => [
+    { no: 1, name: "watchlist", kind: "message", T: Watchlist },
+    { no: 2, name: "results", kind: "message", T: TickerResult, repeated: true },
+  ]);
+
+  static fromBinary(bytes: Uint8Array, options?: Partial<BinaryReadOptions>): ImportWatchlistResponse {
+    return new ImportWatchlistResponse().fromBinary(bytes, options);
+  }
+
+  static fromJson(jsonValue: JsonValue, options?: Partial<JsonReadOptions>): ImportWatchlistResponse {
+    return new ImportWatchlistResponse().fromJson(jsonValue, options);
+  }
+
+  static fromJsonString(jsonString: string, options?: Partial<JsonReadOptions>): ImportWatchlistResponse {
+    return new ImportWatchlistResponse().fromJsonString(jsonString, options);
+  }
+
+  static equals(a: ImportWatchlistResponse | PlainMessage<ImportWatchlistResponse> | undefined, b: ImportWatchlistResponse | PlainMessage<ImportWatchlistResponse> | undefined): boolean {
+    return proto3.util.equals(ImportWatchlistResponse, a, b);
+  }
+}
+